@@ -0,0 +1,30 @@
+/**
+ * Board picker modal
+ */
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { BoardConfig } from './types';
+
+/** Pick a board by name */
+export class BoardSuggestModal extends FuzzySuggestModal<BoardConfig> {
+    private boards: BoardConfig[];
+    private onChoose: (board: BoardConfig) => void;
+
+    constructor(app: App, boards: BoardConfig[], onChoose: (board: BoardConfig) => void) {
+        super(app);
+        this.boards = boards;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Open board…');
+    }
+
+    getItems(): BoardConfig[] {
+        return this.boards;
+    }
+
+    getItemText(board: BoardConfig): string {
+        return board.name;
+    }
+
+    onChooseItem(board: BoardConfig): void {
+        this.onChoose(board);
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Automatic clock-out rules
+ * Closes forgotten clocks at the time a rule was hit: maximum session, daily cut-off or idle timeout
+ */
+import { moment, Notice } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { RawTask } from './types';
+import { CLOCK_TIMESTAMP_FORMAT, formatDuration } from './clock';
+
+/** How often running clocks are checked */
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+/** Wait before retrying a clock that could not be closed (e.g. task line not found) */
+const RETRY_AFTER_FAILURE_MS = 10 * 60 * 1000;
+
+/** Rule that triggered, with the time the clock should have ended */
+interface GuardTrigger {
+    end: number;
+    reason: string;
+}
+
+/** Watches running clocks and user activity */
+export class ClockGuard {
+    plugin: ClockKanbanPlugin;
+    private lastActivity: number = Date.now();
+    /** Clocks being closed ("path:line:start"), so a slow write is not closed twice */
+    private closing: Set<string> = new Set();
+    /** Clocks that could not be closed, with the time of the next attempt */
+    private failed = new Map<string, number>();
+
+    constructor(plugin: ClockKanbanPlugin) {
+        this.plugin = plugin;
+    }
+
+    /** Track activity in the Obsidian window and check clocks periodically */
+    register(): void {
+        const markActive = () => {
+            this.lastActivity = Date.now();
+        };
+        this.plugin.registerDomEvent(window, 'mousemove', markActive, { passive: true });
+        this.plugin.registerDomEvent(window, 'mousedown', markActive, { passive: true });
+        this.plugin.registerDomEvent(window, 'keydown', markActive, { passive: true });
+        this.plugin.registerDomEvent(window, 'wheel', markActive, { passive: true });
+        this.plugin.registerDomEvent(window, 'touchstart', markActive, { passive: true });
+
+        this.plugin.registerInterval(window.setInterval(() => this.check(), CHECK_INTERVAL_MS));
+    }
+
+    /** Close every running clock that hit a rule */
+    async check(now: number = Date.now()): Promise<void> {
+        for (const { task, clock } of this.plugin.taskIndex.getRunningClocks()) {
+            const key = `${task.path}:${task.lineNumber}:${clock.start}`;
+            if (this.closing.has(key) || (this.failed.get(key) ?? 0) > now) continue;
+
+            const trigger = this.getTrigger(moment(clock.start, CLOCK_TIMESTAMP_FORMAT).valueOf(), now);
+            if (!trigger) continue;
+
+            // Each clock on its own: a failure must not stop the others (nor reject the interval callback)
+            this.closing.add(key);
+            try {
+                const result = await this.plugin.clockOutRawTask(task, moment(trigger.end).format(CLOCK_TIMESTAMP_FORMAT));
+                if (result.success) {
+                    this.failed.delete(key);
+                    this.notify(task, trigger);
+                } else {
+                    this.failed.set(key, now + RETRY_AFTER_FAILURE_MS);
+                }
+            } catch (error) {
+                console.error('Error closing clock automatically:', error);
+                this.failed.set(key, now + RETRY_AFTER_FAILURE_MS);
+            } finally {
+                this.closing.delete(key);
+            }
+        }
+    }
+
+    /** Earliest rule hit by a clock started at the given time, if any */
+    private getTrigger(start: number, now: number): GuardTrigger | null {
+        const settings = this.plugin.settings;
+        const triggers: GuardTrigger[] = [];
+
+        // 1. Maximum session length
+        if (settings.maxSessionMinutes > 0) {
+            const end = start + settings.maxSessionMinutes * 60 * 1000;
+            if (now >= end) {
+                triggers.push({ end, reason: `session longer than ${formatDuration(end - start)}` });
+            }
+        }
+
+        // 2. Daily cut-off time
+        const cutoff = this.getCutoffAfter(start);
+        if (cutoff !== null && now >= cutoff) {
+            triggers.push({ end: cutoff, reason: `daily cut-off at ${settings.dailyCutoff}` });
+        }
+
+        // 3. No activity in Obsidian since the last activity or the clock start (API, URI): end at that time
+        const lastActive = Math.max(this.lastActivity, start);
+        if (settings.idleTimeoutMinutes > 0 && now - lastActive >= settings.idleTimeoutMinutes * 60 * 1000) {
+            triggers.push({
+                end: lastActive,
+                reason: `idle for ${formatDuration(now - lastActive)}`
+            });
+        }
+
+        // Never close a clock as an empty interval (e.g. started from outside Obsidian, no activity since)
+        const valid = triggers.filter(trigger => trigger.end > start);
+        if (valid.length === 0) return null;
+        return valid.reduce((earliest, trigger) => (trigger.end < earliest.end ? trigger : earliest));
+    }
+
+    /** First cut-off time after a clock start, null when no cut-off is set */
+    private getCutoffAfter(start: number): number | null {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(this.plugin.settings.dailyCutoff.trim());
+        if (!match) return null;
+
+        const cutoff = moment(start).set({ hour: Number(match[1]), minute: Number(match[2]), second: 0, millisecond: 0 });
+        if (cutoff.valueOf() <= start) {
+            cutoff.add(1, 'day');
+        }
+        return cutoff.valueOf();
+    }
+
+    /** Tell the user the clock was closed, with a button to resume the task */
+    private notify(task: RawTask, trigger: GuardTrigger): void {
+        const time = moment(trigger.end).format(this.plugin.settings.timeFormat);
+        const label = task.description.length > 40 ? `${task.description.substring(0, 40)}…` : task.description;
+
+        const notice = new Notice(createFragment(frag => {
+            frag.createDiv({ text: `⏹️ Clocked out "${label}" at ${time} (${trigger.reason})` });
+            const resume = frag.createEl('button', { text: 'Resume' });
+            resume.addEventListener('click', async () => {
+                notice.hide();
+                await this.plugin.clockInRawTask(task);
+            });
+        }), 0);
+    }
+}
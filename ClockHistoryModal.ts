@@ -0,0 +1,145 @@
+/**
+ * Clock history editor
+ * Add, edit, split, merge and delete the [clock::...] intervals of a task
+ */
+import { Modal, Setting, moment } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { ClockInterval, KanbanTask } from './types';
+import { CLOCK_TIMESTAMP_FORMAT, formatDuration, getIntervalDuration, validateIntervals } from './clock';
+
+/** Formats accepted from datetime inputs (seconds are dropped when zero) */
+const INPUT_FORMATS = [CLOCK_TIMESTAMP_FORMAT, 'YYYY-MM-DDTHH:mm'];
+
+/** Edit the clock intervals of a task */
+export class ClockHistoryModal extends Modal {
+    plugin: ClockKanbanPlugin;
+    task: KanbanTask;
+    private intervals: ClockInterval[];
+    private listEl: HTMLElement;
+    private errorEl: HTMLElement;
+
+    constructor(plugin: ClockKanbanPlugin, task: KanbanTask) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.task = task;
+        this.intervals = task.clocks.map(clock => ({ ...clock }));
+        this.sortIntervals();
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.addClass('clock-kanban-history');
+        contentEl.createEl('h3', { text: 'Clock history' });
+        contentEl.createDiv({ cls: 'setting-item-description', text: this.task.description });
+
+        this.listEl = contentEl.createDiv({ cls: 'clock-kanban-history-list' });
+        this.errorEl = contentEl.createDiv({ cls: 'clock-kanban-history-error' });
+        this.renderList();
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Add interval')
+                .onClick(() => {
+                    const last = this.intervals[this.intervals.length - 1];
+                    const end = moment();
+                    const start = moment.max(moment(end).subtract(1, 'hour'), last?.end ? moment(last.end, CLOCK_TIMESTAMP_FORMAT) : moment(0));
+                    this.intervals.push({ start: start.format(CLOCK_TIMESTAMP_FORMAT), end: end.format(CLOCK_TIMESTAMP_FORMAT) });
+                    this.sortIntervals();
+                    this.renderList();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.save()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /** Render one row per interval with its actions */
+    private renderList(): void {
+        this.listEl.empty();
+        this.errorEl.setText(validateIntervals(this.intervals) || '');
+
+        if (this.intervals.length === 0) {
+            this.listEl.createDiv({ cls: 'setting-item-description', text: 'No clock entries.' });
+            return;
+        }
+
+        this.intervals.forEach((interval, index) => {
+            const row = this.listEl.createDiv({ cls: 'clock-kanban-history-row' });
+
+            this.createTimeInput(row, interval.start, value => {
+                interval.start = value || interval.start;
+            });
+            row.createSpan({ text: '→' });
+            this.createTimeInput(row, interval.end || '', value => {
+                interval.end = value || undefined;
+            }, 'running');
+
+            row.createSpan({
+                cls: 'clock-kanban-history-duration',
+                text: formatDuration(getIntervalDuration(interval))
+            });
+
+            // Split in two halves
+            this.createAction(row, '✂', 'Split in two', !interval.end, () => {
+                const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT);
+                const middle = start.add(getIntervalDuration(interval) / 2, 'ms').format(CLOCK_TIMESTAMP_FORMAT);
+                this.intervals.splice(index + 1, 0, { start: middle, end: interval.end });
+                interval.end = middle;
+            });
+
+            // Merge with the next interval
+            this.createAction(row, '⤓', 'Merge with next', index === this.intervals.length - 1, () => {
+                const next = this.intervals[index + 1];
+                interval.end = next.end && interval.end && interval.end > next.end ? interval.end : next.end;
+                this.intervals.splice(index + 1, 1);
+            });
+
+            this.createAction(row, '🗑', 'Delete', false, () => {
+                this.intervals.splice(index, 1);
+            });
+        });
+    }
+
+    private createTimeInput(row: HTMLElement, value: string, onChange: (value: string) => void, placeholder = ''): void {
+        const input = row.createEl('input', { type: 'datetime-local', value, attr: { step: '1', placeholder } });
+        input.addEventListener('change', () => {
+            const parsed = moment(input.value, INPUT_FORMATS, true);
+            onChange(parsed.isValid() ? parsed.format(CLOCK_TIMESTAMP_FORMAT) : '');
+            this.sortIntervals();
+            this.renderList();
+        });
+    }
+
+    private createAction(row: HTMLElement, icon: string, title: string, disabled: boolean, action: () => void): void {
+        const button = row.createEl('button', { text: icon, attr: { title } });
+        button.disabled = disabled;
+        button.addEventListener('click', () => {
+            action();
+            this.sortIntervals();
+            this.renderList();
+        });
+    }
+
+    private sortIntervals(): void {
+        this.intervals.sort((a, b) => a.start.localeCompare(b.start));
+    }
+
+    /** Validate, then write the intervals below the task */
+    private async save(): Promise<void> {
+        const error = validateIntervals(this.intervals);
+        if (error) {
+            this.errorEl.setText(error);
+            return;
+        }
+
+        await this.plugin.replaceTaskClocks(this.task, this.intervals);
+        this.close();
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * Public API for other plugins and scripts
+ * Available as app.plugins.plugins['clock-kanban'].api, works without an open board
+ */
+import { EventRef, Events } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { BoardConfig, ClockOperationResult, DragDropEvent, KanbanColumnType, KanbanTask } from './types';
+import { EMPTY_FILTER } from './types';
+import { KanbanBoard } from './KanbanBoard';
+import type { RunningClock } from './TaskIndex';
+
+/** Fired with a DragDropEvent after a task changed column (board, command, API or URI) */
+export const TASK_MOVED_EVENT = 'task-moved';
+
+/** Fired with a ClockOperationResult after every clock-in */
+export const CLOCK_IN_EVENT = 'clock-in';
+
+/** Fired with a ClockOperationResult after every clock-out */
+export const CLOCK_OUT_EVENT = 'clock-out';
+
+/**
+ * Clock Kanban API
+ * Task IDs are the stable IDs (block ID or Tasks 🆔 value), or "path-line" for tasks never touched by the board
+ */
+export class ClockKanbanApi extends Events {
+    private plugin: ClockKanbanPlugin;
+    /** Boards loaded outside any view, one per board ID, reused by every call */
+    private boards = new Map<string, KanbanBoard>();
+
+    constructor(plugin: ClockKanbanPlugin) {
+        super();
+        this.plugin = plugin;
+    }
+
+    on(name: typeof TASK_MOVED_EVENT, callback: (event: DragDropEvent) => void, ctx?: unknown): EventRef;
+    on(name: typeof CLOCK_IN_EVENT | typeof CLOCK_OUT_EVENT, callback: (result: ClockOperationResult) => void, ctx?: unknown): EventRef;
+    on(name: string, callback: ((event: DragDropEvent) => void) | ((result: ClockOperationResult) => void), ctx?: unknown): EventRef {
+        return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+    }
+
+    /** Configured boards */
+    getBoards(): BoardConfig[] {
+        return this.plugin.settings.boards;
+    }
+
+    /** Every task of a board (active board by default), completed ones included, ignoring the filter bar */
+    async getTasks(boardId?: string): Promise<KanbanTask[]> {
+        const board = await this.loadBoard(boardId);
+        return board.tasks;
+    }
+
+    /** Find a task of a board by ID */
+    async getTask(taskId: string, boardId?: string): Promise<KanbanTask | undefined> {
+        const tasks = await this.getTasks(boardId);
+        return tasks.find(task => task.id === taskId);
+    }
+
+    /** Tasks with an open clock, across the whole vault */
+    async getRunningClocks(): Promise<RunningClock[]> {
+        await this.plugin.taskIndex.ensureBuilt();
+        return this.plugin.taskIndex.getRunningClocks();
+    }
+
+    /** Clock in a task (pausing the others in single clock mode) */
+    async clockIn(taskId: string, boardId?: string): Promise<ClockOperationResult> {
+        const board = await this.loadBoard(boardId);
+        const task = board.tasks.find(t => t.id === taskId);
+        if (!task) return this.failure(taskId, 'clock-in', 'Task not found');
+        if (task.clocks.some(clock => !clock.end)) return this.failure(taskId, 'clock-in', 'Task is already clocked in');
+
+        return this.plugin.startClock(task, board.board);
+    }
+
+    /** Clock out a task */
+    async clockOut(taskId: string, boardId?: string): Promise<ClockOperationResult> {
+        const board = await this.loadBoard(boardId);
+        const task = board.tasks.find(t => t.id === taskId);
+        if (!task) return this.failure(taskId, 'clock-out', 'Task not found');
+        if (!task.clocks.some(clock => !clock.end)) return this.failure(taskId, 'clock-out', 'Task is not clocked in');
+
+        return this.plugin.stopClock(task);
+    }
+
+    /**
+     * Move a task to a column (ID, or name), with the same rules as a drag & drop
+     * (WIP limit, clock-in/out on the clock column, status symbol); false when the move was refused
+     */
+    async moveTask(taskId: string, column: KanbanColumnType, boardId?: string): Promise<boolean> {
+        const board = await this.loadBoard(boardId);
+        const task = board.tasks.find(t => t.id === taskId);
+        const target = board.board.columns.find(col => col.id === column)
+            || board.board.columns.find(col => col.name === column);
+        if (!task || !target) return false;
+
+        return board.handleTaskMove(task, task.column, target.id);
+    }
+
+    /**
+     * Board loaded outside any view: nothing is rendered, tasks and move rules only
+     * Created once per board, its tasks are reloaded from the shared index on every call
+     */
+    private async loadBoard(boardId?: string): Promise<KanbanBoard> {
+        const id = this.plugin.getBoard(boardId).id;
+        let board = this.boards.get(id);
+        if (!board) {
+            board = new KanbanBoard(this.plugin, () => {
+                const config = this.plugin.getBoard(id);
+                return {
+                    board: config,
+                    folder: config.folderFilter,
+                    filter: EMPTY_FILTER,
+                    todayOnly: false,
+                    showCompleted: true,
+                    groupBy: 'none',
+                };
+            });
+            this.boards.set(id, board);
+        }
+        await board.loadTasks();
+        return board;
+    }
+
+    private failure(taskId: string, operation: ClockOperationResult['operation'], error: string): ClockOperationResult {
+        return { success: false, taskId, operation, timestamp: '', error };
+    }
+}
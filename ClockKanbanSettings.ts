@@ -1,51 +1,243 @@
 /**
  * Clock Kanban plugin settings management
  */
-import { App, PluginSettingTab, Setting, ToggleComponent, TextComponent, ButtonComponent } from 'obsidian';
+import { App, PluginSettingTab, Setting, ToggleComponent, TextComponent, ButtonComponent, debounce } from 'obsidian';
 import type ClockKanbanPlugin from './main';
-import { DEFAULT_COLUMNS, KanbanColumnConfig } from './types';
+import { BoardConfig, ColumnRule, ColumnRuleAction, ColumnSort, ColumnSortKey, DEFAULT_COLUMNS, EMPTY_FILTER, FilterPreset, KanbanColumnConfig, SwimlaneGroupBy, TaskFilter } from './types';
+import { SORT_KEY_LABELS } from './sorting';
+import { RULE_ACTION_LABELS, RULE_VALUE_PLACEHOLDERS } from './columnRules';
+import { DEFAULT_TIMESHEET_TEMPLATE } from './timesheet';
+import type { TaskIdStyle } from './taskId';
+import type { DailyLogStyle } from './dailyLog';
+import { CLOCK_BACKEND_LABELS, ClockBackendType, resolveClockBackend } from './clockBackend';
+
+/** Task source options */
+export type TaskSource = 'auto' | 'tasks-plugin' | 'vault';
 
 /** Plugin settings interface */
 export interface ClockKanbanSettings {
+    /** Settings schema version, see migrateSettings */
+    schemaVersion: number;
     /** Enable automatic clock-in/out */
     autoClockInOut: boolean;
-    /** The column that triggers clock-in when entered and clock-out when exited */
-    clockColumn: string;
-    /** Show completed tasks */
-    showCompletedTasks: boolean;
+    /** Only one running clock: entering the clock column pauses the other running tasks */
+    singleActiveClock: boolean;
+    /** Close clocks running longer than this (minutes, 0 to disable) */
+    maxSessionMinutes: number;
+    /** Close clocks still running at this time of day (HH:mm, empty to disable) */
+    dailyCutoff: string;
+    /** Close clocks after this long without activity in Obsidian (minutes, 0 to disable) */
+    idleTimeoutMinutes: number;
     /** Time format (Day Planner: HH:mm) */
     timeFormat: string;
-    /** Use Day Planner command or modify task directly (Deprecated/Future API) */
-    useDayPlannerCommands: boolean;
+    /** Where clock-in/clock-out are recorded */
+    clockBackend: ClockBackendType;
+    /** Where tasks are read from: Tasks plugin, built-in vault scanner, or Tasks plugin when available */
+    taskSource: TaskSource;
+    /** How tasks touched by the board are tagged with a stable ID */
+    taskIdStyle: TaskIdStyle;
     /** Regex to identify task (default: checkbox markdown) */
     taskRegex: string;
-    /** Folder filter for tasks (e.g. /toto) */
-    folderFilter: string;
-    /** Customizable columns */
-    columns: KanbanColumnConfig[];
+    /** Boards, each with its own columns and scope */
+    boards: BoardConfig[];
+    /** Board opened by default */
+    activeBoardId: string;
     /** Show non-essential notices (debug mode) */
     debugMessages: boolean;
-    /** Excluded folders (e.g. /Archive) */
-    excludedFolders: string[];
+    /** Swimlane grouping of the board */
+    groupBy: SwimlaneGroupBy;
+    /** Collapsed swimlanes ("groupBy:lane") */
+    collapsedLanes: string[];
+    /** Current filter bar state */
+    activeFilter: TaskFilter;
+    /** Saved filter combinations */
+    filterPresets: FilterPreset[];
+    /** Manual card order: stable task IDs per "boardId:column" */
+    cardOrder: Record<string, string[]>;
+    /** Vault folder receiving time exports */
+    exportFolder: string;
+    /** Vault folder of the weekly timesheet notes */
+    timesheetFolder: string;
+    /** Timesheet note template ({{week}}, {{from}}, {{to}}, {{total}}, {{table}}, {{tasks}}) */
+    timesheetTemplate: string;
+    /** Log clock intervals in the daily note: off, list lines or Day Planner timeblocks */
+    dailyLogStyle: DailyLogStyle;
+    /** Heading the daily note log lines go under (end of the note when empty) */
+    dailyLogHeading: string;
+}
+
+/** Board created from the single-board settings of older versions */
+export const DEFAULT_BOARD_ID = 'default';
+
+/** Settings of older versions, moved to the boards */
+const LEGACY_BOARD_KEYS: (keyof StoredSettings)[] = ['columns', 'clockColumn', 'pauseColumn', 'folderFilter', 'excludedFolders'];
+
+/** Current settings schema version */
+export const SETTINGS_VERSION = 3;
+
+/** Create a board, copying columns and scope from an existing configuration */
+export function createBoard(id: string, name: string, from: Partial<BoardConfig> = {}): BoardConfig {
+    return {
+        id,
+        name,
+        columns: (from.columns || DEFAULT_COLUMNS).map(col => ({ ...col })),
+        clockColumn: from.clockColumn ?? 'working',
+        pauseColumn: from.pauseColumn ?? 'stopped',
+        folderFilter: from.folderFilter ?? '',
+        excludedFolders: [...(from.excludedFolders || [])],
+    };
+}
+
+/** ID for a column added in the settings */
+export function createColumnId(): string {
+    return `col-${Date.now().toString(36)}`;
+}
+
+/** Column as stored by any schema version */
+type StoredColumn = Partial<KanbanColumnConfig> & {
+    /** Before v2: column type, used as the ID */
+    type?: string;
+    /** Before v3: single status symbol */
+    symbol?: string;
+};
+
+/** Board as stored by any schema version */
+type StoredBoard = Omit<Partial<BoardConfig>, 'columns'> & { columns: StoredColumn[] };
+
+/** Settings as stored by any schema version */
+export type StoredSettings = Omit<Partial<ClockKanbanSettings>, 'boards' | 'clockBackend'> & {
+    boards?: StoredBoard[];
+    clockBackend?: string;
+    /** Before v1: settings of the single board */
+    columns?: StoredColumn[];
+    clockColumn?: string;
+    pauseColumn?: string;
+    folderFilter?: string;
+    excludedFolders?: string[];
+    /** Before v1: Day Planner commands toggle */
+    useDayPlannerCommands?: boolean;
+    /** Before v3: global "show completed" setting */
+    showCompletedTasks?: boolean;
+};
+
+/**
+ * Bring stored settings up to the current schema
+ * 1. Boards: the single-board settings become the default board; Day Planner toggle becomes the clock backend
+ * 2. Column IDs: columns get a stable ID, clock/pause columns and card order keys refer to it instead of the name
+ * 3. Column options: the status symbol becomes a list, the global "show completed" setting moves to the done columns
+ */
+export function migrateSettings(data: StoredSettings): Partial<ClockKanbanSettings> {
+    const version: number = data.schemaVersion || 0;
+
+    if (version < 1) {
+        if (!data.boards || data.boards.length === 0) {
+            data.boards = [createBoard(DEFAULT_BOARD_ID, 'Default', data as Partial<BoardConfig>)];
+        }
+        LEGACY_BOARD_KEYS.forEach(key => delete data[key]);
+
+        if (!data.clockBackend) {
+            data.clockBackend = data.useDayPlannerCommands ? 'day-planner-commands' : 'property';
+        }
+        delete data.useDayPlannerCommands;
+    }
+
+    const boards = data.boards || [];
+
+    if (version < 2) {
+        boards.forEach(board => migrateColumnIds(board, data.cardOrder || {}));
+    }
+
+    if (version < 3) {
+        boards.forEach(board => board.columns.forEach(col => {
+            if (!col.symbols) col.symbols = [col.symbol ?? ' '];
+            delete col.symbol;
+            const isDone = col.symbols.some(symbol => symbol.toLowerCase() === 'x');
+            if (isDone && col.showCompleted === undefined) col.showCompleted = !!data.showCompletedTasks;
+        }));
+        delete data.showCompletedTasks;
+    }
+
+    // Unknown clock backends fall back to the property
+    if (!Object.keys(CLOCK_BACKEND_LABELS).includes(data.clockBackend || '')) {
+        data.clockBackend = 'property';
+    }
+
+    // Clock and pause columns must be columns of their board
+    boards.forEach(board => {
+        const ids = board.columns.map(c => c.id);
+        if (!ids.includes(board.clockColumn)) board.clockColumn = '';
+        if (!ids.includes(board.pauseColumn)) board.pauseColumn = '';
+    });
+
+    data.schemaVersion = SETTINGS_VERSION;
+    return data as Partial<ClockKanbanSettings>;
+}
+
+/** Columns identified by their (former) type, column references stored as IDs */
+function migrateColumnIds(board: StoredBoard, cardOrder: Record<string, string[]>): void {
+    const used = new Set<string>();
+    board.columns.forEach(col => {
+        let id: string = col.id || col.type || col.name || createColumnId();
+        while (used.has(id)) id = `${id}-2`;
+        used.add(id);
+        col.id = id;
+        delete col.type;
+    });
+
+    // References held a column type or name (both were kept equal on rename), or the lowercase
+    // defaults of createBoard ('working', 'stopped') when the old settings had none
+    const toId = (ref: string | undefined): string | undefined => {
+        const lower = (ref || '').toLowerCase();
+        return (board.columns.find(c => c.id === ref)
+            || board.columns.find(c => c.name === ref)
+            || board.columns.find(c => (c.id || '').toLowerCase() === lower || (c.name || '').toLowerCase() === lower))?.id;
+    };
+    board.clockColumn = toId(board.clockColumn) ?? '';
+    board.pauseColumn = toId(board.pauseColumn) ?? '';
+
+    const prefix = `${board.id}:`;
+    Object.keys(cardOrder).filter(key => key.startsWith(prefix)).forEach(key => {
+        const id = toId(key.substring(prefix.length));
+        if (!id || `${prefix}${id}` === key) return;
+        cardOrder[`${prefix}${id}`] = cardOrder[key];
+        delete cardOrder[key];
+    });
 }
 
 /** Default settings */
 export const DEFAULT_SETTINGS: ClockKanbanSettings = {
+    schemaVersion: SETTINGS_VERSION,
     autoClockInOut: true,
-    clockColumn: 'Working',
-    showCompletedTasks: false,
+    singleActiveClock: false,
+    maxSessionMinutes: 0,
+    dailyCutoff: '',
+    idleTimeoutMinutes: 0,
     timeFormat: 'HH:mm',
-    useDayPlannerCommands: false,
+    clockBackend: 'property',
+    taskSource: 'auto',
+    taskIdStyle: 'block-id',
     taskRegex: '- \\[([^\\t\\n\\r])\\]',
-    folderFilter: '',
-    columns: [...DEFAULT_COLUMNS],
+    boards: [],
+    activeBoardId: DEFAULT_BOARD_ID,
     debugMessages: false,
-    excludedFolders: [],
+    groupBy: 'none',
+    collapsedLanes: [],
+    activeFilter: { ...EMPTY_FILTER },
+    filterPresets: [],
+    cardOrder: {},
+    exportFolder: 'Clock Exports',
+    timesheetFolder: 'Timesheets',
+    timesheetTemplate: DEFAULT_TIMESHEET_TEMPLATE,
+    dailyLogStyle: 'off',
+    dailyLogHeading: '',
 };
 
 /** Plugin settings tab */
 export class ClockKanbanSettingTab extends PluginSettingTab {
     plugin: ClockKanbanPlugin;
+    /** Board whose columns and scope are shown */
+    private editedBoardId = '';
+    private rebuildIndex = debounce(() => this.plugin.taskIndex.rebuild(), 1000, true);
 
     constructor(app: App, plugin: ClockKanbanPlugin) {
         super(app, plugin);
@@ -63,52 +255,219 @@ export class ClockKanbanSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Auto Clock-in/Clock-out')
-            .setDesc('Automatically clock in/out based on task movements')
+            .setDesc('Automatically clock in/out based on task movements. When off, running tasks are no longer pinned to the clock column')
             .addToggle((toggle: ToggleComponent) => toggle
                 .setValue(this.plugin.settings.autoClockInOut)
                 .onChange(async (value: boolean) => {
                     this.plugin.settings.autoClockInOut = value;
                     await this.plugin.saveSettings();
+                    this.plugin.refreshKanbanView();
                 }));
 
+        new Setting(containerEl)
+            .setName('Single Active Clock')
+            .setDesc('Moving a task into the clock column clocks out any other running task')
+            .addToggle((toggle: ToggleComponent) => toggle
+                .setValue(this.plugin.settings.singleActiveClock)
+                .onChange(async (value: boolean) => {
+                    this.plugin.settings.singleActiveClock = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Task Source')
+            .setDesc('Read tasks from the Tasks plugin or scan the vault with the task regex')
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', 'Tasks plugin if available, else vault scanner')
+                .addOption('tasks-plugin', 'Tasks plugin')
+                .addOption('vault', 'Built-in vault scanner')
+                .setValue(this.plugin.settings.taskSource)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskSource = value as TaskSource;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshKanbanView();
+                }));
+
+        const resolvedBackend = resolveClockBackend(this.app, this.plugin.settings.clockBackend);
+        new Setting(containerEl)
+            .setName('Clock Backend')
+            .setDesc(`Where clock-in/clock-out are recorded. Only the [clock::] property feeds the clock column, stats and exports; the commands fall back to it when Day Planner is missing. In use: ${CLOCK_BACKEND_LABELS[resolvedBackend]}`)
+            .addDropdown(dropdown => {
+                (Object.keys(CLOCK_BACKEND_LABELS) as ClockBackendType[])
+                    .forEach(backend => dropdown.addOption(backend, CLOCK_BACKEND_LABELS[backend]));
+                dropdown
+                    .setValue(this.plugin.settings.clockBackend)
+                    .onChange(async (value) => {
+                        this.plugin.settings.clockBackend = value as ClockBackendType;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        // Section: Automatic Clock-out
+        containerEl.createEl('h3', { text: 'Automatic Clock-out' });
+        containerEl.createEl('div', {
+            text: 'Forgotten clocks are closed at the time the rule was hit, and a notice offers to resume the task.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Maximum Session')
+            .setDesc('Close clocks running longer than this many minutes (0 to disable)')
+            .addText((text: TextComponent) => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text
+                    .setPlaceholder('0')
+                    .setValue(this.plugin.settings.maxSessionMinutes ? String(this.plugin.settings.maxSessionMinutes) : '')
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.maxSessionMinutes = Math.max(0, parseInt(value, 10) || 0);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Daily Cut-off')
+            .setDesc('Close clocks still running at this time of day, e.g. 19:00 (empty to disable)')
+            .addText((text: TextComponent) => text
+                .setPlaceholder('19:00')
+                .setValue(this.plugin.settings.dailyCutoff)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.dailyCutoff = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Idle Timeout')
+            .setDesc('Close clocks after this many minutes without activity in Obsidian, at the last activity (0 to disable)')
+            .addText((text: TextComponent) => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text
+                    .setPlaceholder('0')
+                    .setValue(this.plugin.settings.idleTimeoutMinutes ? String(this.plugin.settings.idleTimeoutMinutes) : '')
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.idleTimeoutMinutes = Math.max(0, parseInt(value, 10) || 0);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Section: Boards
+        containerEl.createEl('h3', { text: 'Boards' });
+        const board = this.plugin.getBoard(this.editedBoardId);
+        this.editedBoardId = board.id;
+
+        this.plugin.settings.boards.forEach((item, index) => {
+            new Setting(containerEl)
+                .setName(item.id === board.id ? `${item.name} (editing)` : item.name)
+                .addText(text => text
+                    .setPlaceholder('Board Name')
+                    .setValue(item.name)
+                    .onChange(async (val) => {
+                        item.name = val;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                    }))
+                .addButton(btn => btn
+                    .setIcon('pencil')
+                    .setTooltip('Edit Columns and Scope')
+                    .onClick(() => {
+                        this.editedBoardId = item.id;
+                        this.display();
+                    }))
+                .addButton(btn => btn
+                    .setIcon('trash')
+                    .setTooltip('Remove Board')
+                    .setDisabled(this.plugin.settings.boards.length === 1)
+                    .onClick(async () => {
+                        if (this.plugin.settings.boards.length === 1) return;
+                        this.plugin.settings.boards.splice(index, 1);
+                        this.plugin.removeBoardCommand(item);
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(btn => btn
+                .setButtonText('Add Board')
+                .onClick(async () => {
+                    const created = createBoard(`board-${Date.now().toString(36)}`, 'New Board');
+                    this.plugin.settings.boards.push(created);
+                    this.plugin.addBoardCommand(created);
+                    this.editedBoardId = created.id;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshKanbanView();
+                    this.display();
+                }));
+
+        // Section: Board
+        containerEl.createEl('h3', { text: `Board: ${board.name}` });
+
         new Setting(containerEl)
             .setName('Auto-Clock Column')
             .setDesc('Select the column that should trigger clock-in')
             .addDropdown(dropdown => {
-                this.plugin.settings.columns.forEach(col => {
-                    dropdown.addOption(col.name, col.name);
+                dropdown.addOption('', 'None');
+                board.columns.forEach(col => {
+                    dropdown.addOption(col.id, col.name);
                 });
-                dropdown.setValue(this.plugin.settings.clockColumn);
+                dropdown.setValue(board.clockColumn);
                 dropdown.onChange(async (value) => {
-                    this.plugin.settings.clockColumn = value;
+                    board.clockColumn = value;
                     await this.plugin.saveSettings();
                 });
             });
 
         new Setting(containerEl)
-            .setName('Use Day Planner Commands (Deprecated)')
-            .setDesc('Once API available. Currently adding timestamps directly to tasks.')
-            .setDisabled(true)
-            .addToggle((toggle: ToggleComponent) => toggle
-                .setValue(false)
-                .onChange(async () => {
-                    // Disabled
+            .setName('Pause Column')
+            .setDesc('Column that clocked-out tasks are moved to in single active clock mode')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'None');
+                board.columns.forEach(col => {
+                    dropdown.addOption(col.id, col.name);
+                });
+                dropdown.setValue(board.pauseColumn);
+                dropdown.onChange(async (value) => {
+                    board.pauseColumn = value;
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Folder Scope')
+            .setDesc('Only show tasks from this folder or file (empty for the whole vault)')
+            .addText((text: TextComponent) => text
+                .setPlaceholder('/Projects')
+                .setValue(board.folderFilter)
+                .onChange(async (value: string) => {
+                    board.folderFilter = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshKanbanView();
                 }));
 
         // Section: Kanban Columns
         containerEl.createEl('h3', { text: 'Kanban Columns' });
+        containerEl.createEl('div', {
+            text: 'Drag the handle to reorder columns. Symbols: each character is a status symbol of the column, the first one is written when a card moves in.',
+            cls: 'setting-item-description'
+        });
         const columnContainer = containerEl.createDiv('kanban-column-settings');
+        let draggedIndex: number | null = null;
 
-        this.plugin.settings.columns.forEach((col, index) => {
+        board.columns.forEach((col, index) => {
             const colSetting = new Setting(columnContainer)
                 .setName(`Column: ${col.name}`)
+                .setDesc(col.hidden ? 'Hidden on the board' : '')
                 .addText(text => text
                     .setPlaceholder('Column Name')
                     .setValue(col.name)
                     .onChange(async (val) => {
+                        // Only the display name changes: tasks, clock column and card order refer to the ID
                         col.name = val;
-                        col.type = val; // Sync type with name for simplicity
                         await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
                     }))
                 .addColorPicker(cp => cp
                     .setValue(col.color)
@@ -117,51 +476,258 @@ export class ClockKanbanSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     }))
                 .addText(text => text
-                    .setPlaceholder('Symbol (e.g. x, -, /)')
-                    .setValue(col.symbol)
+                    .setPlaceholder('Symbols (e.g. x, -/)')
+                    .setValue(col.symbols.join(''))
                     .onChange(async (val) => {
-                        col.symbol = val;
+                        const symbols = val.split('').filter((symbol, i, all) => all.indexOf(symbol) === i);
+                        col.symbols = symbols.length > 0 ? symbols : [' '];
                         await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                    }))
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '0';
+                    text.inputEl.addClass('clock-kanban-wip-input');
+                    text
+                        .setPlaceholder('WIP')
+                        .setValue(col.wipLimit ? String(col.wipLimit) : '')
+                        .onChange(async (val) => {
+                            const limit = parseInt(val, 10);
+                            col.wipLimit = limit > 0 ? limit : undefined;
+                            await this.plugin.saveSettings();
+                            this.plugin.refreshKanbanView();
+                        });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Manual order');
+                    (Object.keys(SORT_KEY_LABELS) as ColumnSortKey[]).forEach(key => {
+                        dropdown.addOption(`${key}:asc`, `${SORT_KEY_LABELS[key]} ↑`);
+                        dropdown.addOption(`${key}:desc`, `${SORT_KEY_LABELS[key]} ↓`);
+                    });
+                    dropdown.setValue(col.sort ? `${col.sort.key}:${col.sort.direction}` : '');
+                    dropdown.onChange(async (value) => {
+                        const [key, direction] = value.split(':');
+                        col.sort = value ? { key: key as ColumnSortKey, direction: direction as ColumnSort['direction'] } : undefined;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                    });
+                })
+                .addToggle(toggle => toggle
+                    .setTooltip('Show completed tasks')
+                    .setValue(col.showCompleted !== false)
+                    .onChange(async (value) => {
+                        col.showCompleted = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                    }))
+                .addToggle(toggle => toggle
+                    .setTooltip('Hide when empty')
+                    .setValue(!!col.hideWhenEmpty)
+                    .onChange(async (value) => {
+                        col.hideWhenEmpty = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                    }))
+                .addExtraButton(btn => btn
+                    .setIcon(col.hidden ? 'eye-off' : 'eye')
+                    .setTooltip(col.hidden ? 'Show on the board' : 'Hide from the board')
+                    .onClick(async () => {
+                        col.hidden = !col.hidden;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
+                        this.display();
                     }))
                 .addButton(btn => btn
                     .setIcon('trash')
                     .setTooltip('Remove Column')
                     .onClick(async () => {
-                        this.plugin.settings.columns.splice(index, 1);
+                        board.columns.splice(index, 1);
+                        if (board.clockColumn === col.id) board.clockColumn = '';
+                        if (board.pauseColumn === col.id) board.pauseColumn = '';
+                        const cardOrder = { ...this.plugin.settings.cardOrder };
+                        delete cardOrder[`${board.id}:${col.id}`];
+                        this.plugin.settings.cardOrder = cardOrder;
                         await this.plugin.saveSettings();
+                        this.plugin.refreshKanbanView();
                         this.display();
                     }));
+
+            // Reorder: the row is only draggable while its handle is held, inputs keep text selection
+            const rowEl = colSetting.settingEl;
+            const handle = createSpan({ cls: 'clock-kanban-drag-handle', text: '⋮⋮', attr: { 'aria-label': 'Drag to reorder' } });
+            rowEl.prepend(handle);
+            handle.addEventListener('mousedown', () => rowEl.draggable = true);
+            handle.addEventListener('mouseup', () => rowEl.draggable = false);
+            rowEl.addEventListener('dragstart', (e: DragEvent) => {
+                draggedIndex = index;
+                e.dataTransfer?.setData('text/plain', col.id);
+            });
+            rowEl.addEventListener('dragend', () => {
+                rowEl.draggable = false;
+                draggedIndex = null;
+            });
+            rowEl.addEventListener('dragover', (e: DragEvent) => {
+                if (draggedIndex === null) return;
+                e.preventDefault();
+                rowEl.addClass('clock-kanban-column-setting-dragover');
+            });
+            rowEl.addEventListener('dragleave', () => rowEl.removeClass('clock-kanban-column-setting-dragover'));
+            rowEl.addEventListener('drop', async (e: DragEvent) => {
+                e.preventDefault();
+                rowEl.removeClass('clock-kanban-column-setting-dragover');
+                if (draggedIndex === null || draggedIndex === index) return;
+                const [moved] = board.columns.splice(draggedIndex, 1);
+                board.columns.splice(index, 0, moved);
+                await this.plugin.saveSettings();
+                this.plugin.refreshKanbanView();
+                this.display();
+            });
         });
 
         new Setting(containerEl)
             .addButton(btn => btn
                 .setButtonText('Add Column')
                 .onClick(async () => {
-                    this.plugin.settings.columns.push({
-                        type: 'New Column',
+                    board.columns.push({
+                        id: createColumnId(),
                         name: 'New Column',
                         color: '#6b7280',
-                        symbol: ' '
+                        symbols: [' ']
                     });
                     await this.plugin.saveSettings();
                     this.display();
                 }));
 
-        // Section: Display
-        containerEl.createEl('h3', { text: 'Display' });
+        // Section: Column Automations
+        containerEl.createEl('h3', { text: 'Column Automations' });
+        containerEl.createEl('div', {
+            text: 'Actions run on the task line when a card enters or leaves a column, in the same edit as the status symbol.',
+            cls: 'setting-item-description'
+        });
+
+        board.columns.forEach(col => {
+            (col.rules || []).forEach((rule, index) => {
+                const placeholder = RULE_VALUE_PLACEHOLDERS[rule.action];
+                new Setting(containerEl)
+                    .setName(col.name)
+                    .addDropdown(dropdown => dropdown
+                        .addOption('enter', 'On enter')
+                        .addOption('exit', 'On exit')
+                        .setValue(rule.trigger)
+                        .onChange(async (value) => {
+                            rule.trigger = value as ColumnRule['trigger'];
+                            await this.plugin.saveSettings();
+                        }))
+                    .addDropdown(dropdown => {
+                        (Object.keys(RULE_ACTION_LABELS) as ColumnRuleAction[])
+                            .forEach(action => dropdown.addOption(action, RULE_ACTION_LABELS[action]));
+                        dropdown
+                            .setValue(rule.action)
+                            .onChange(async (value) => {
+                                rule.action = value as ColumnRuleAction;
+                                await this.plugin.saveSettings();
+                                this.display();
+                            });
+                    })
+                    .addText(text => text
+                        .setPlaceholder(placeholder || '')
+                        .setDisabled(!placeholder)
+                        .setValue(rule.value || '')
+                        .onChange(async (value) => {
+                            rule.value = value.trim();
+                            await this.plugin.saveSettings();
+                        }))
+                    .addButton(btn => btn
+                        .setIcon('trash')
+                        .setTooltip('Remove Automation')
+                        .onClick(async () => {
+                            col.rules = (col.rules || []).filter((_, i) => i !== index);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            });
+        });
 
+        let ruleColumnId = board.columns[0]?.id || '';
         new Setting(containerEl)
-            .setName('Show Completed Tasks')
-            .setDesc('Display tasks marked as done in the Done column')
-            .addToggle((toggle: ToggleComponent) => toggle
-                .setValue(this.plugin.settings.showCompletedTasks)
-                .onChange(async (value: boolean) => {
-                    this.plugin.settings.showCompletedTasks = value;
+            .addDropdown(dropdown => {
+                board.columns.forEach(col => dropdown.addOption(col.id, col.name));
+                dropdown.setValue(ruleColumnId);
+                dropdown.onChange(value => ruleColumnId = value);
+            })
+            .addButton(btn => btn
+                .setButtonText('Add Automation')
+                .onClick(async () => {
+                    const col = board.columns.find(c => c.id === ruleColumnId);
+                    if (!col) return;
+                    col.rules = [...(col.rules || []), { trigger: 'enter', action: 'add-done-date' }];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Section: Excluded Folders
+        containerEl.createEl('h3', { text: 'Excluded Folders' });
+        const excludedContainer = containerEl.createDiv('excluded-folders-settings');
+
+        board.excludedFolders.forEach((folder, index) => {
+            new Setting(excludedContainer)
+                .setName(`Folder ${index + 1}`)
+                .addText(text => text
+                    .setPlaceholder('/Archive')
+                    .setValue(folder)
+                    .onChange(async (val) => {
+                        board.excludedFolders[index] = val;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(btn => btn
+                    .setIcon('trash')
+                    .setTooltip('Remove Folder')
+                    .onClick(async () => {
+                        board.excludedFolders.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(btn => btn
+                .setButtonText('Add Folder')
+                .onClick(async () => {
+                    board.excludedFolders.push('');
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Section: Daily Note Log
+        containerEl.createEl('h3', { text: 'Daily Note Log' });
+
+        new Setting(containerEl)
+            .setName('Log Clock Intervals')
+            .setDesc('Add a line to the daily note (Daily Notes core plugin folder and format) on clock-in, completed on clock-out')
+            .addDropdown(dropdown => dropdown
+                .addOption('off', 'Off')
+                .addOption('list', 'List (- 09:15–10:30 [[Task]])')
+                .addOption('timeblock', 'Day Planner timeblock (- [x] 09:15 - 10:30 [[Task]])')
+                .setValue(this.plugin.settings.dailyLogStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyLogStyle = value as DailyLogStyle;
                     await this.plugin.saveSettings();
-                    // Refresh view if open
-                    this.plugin.refreshKanbanView();
                 }));
 
+        new Setting(containerEl)
+            .setName('Log Heading')
+            .setDesc('Lines go at the end of this section, created when missing. Leave empty to append to the end of the note.')
+            .addText((text: TextComponent) => text
+                .setPlaceholder('## Clock log')
+                .setValue(this.plugin.settings.dailyLogHeading)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.dailyLogHeading = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Section: Display
+        containerEl.createEl('h3', { text: 'Display' });
+
         new Setting(containerEl)
             .setName('Time Format')
             .setDesc('Format for timestamps (default: HH:mm for Day Planner compatibility)')
@@ -183,62 +749,108 @@ export class ClockKanbanSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // Section: Export & Timesheets
+        containerEl.createEl('h3', { text: 'Export & Timesheets' });
+
+        new Setting(containerEl)
+            .setName('Export Folder')
+            .setDesc('Vault folder where "Export tracked time…" writes its CSV, JSON and iCalendar files')
+            .addText((text: TextComponent) => text
+                .setPlaceholder('Clock Exports')
+                .setValue(this.plugin.settings.exportFolder)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.exportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Timesheet Folder')
+            .setDesc('Vault folder of the notes created by "Generate weekly timesheet…" (one note per week, e.g. 2026-W42)')
+            .addText((text: TextComponent) => text
+                .setPlaceholder('Timesheets')
+                .setValue(this.plugin.settings.timesheetFolder)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.timesheetFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Timesheet Template')
+            .setDesc('Placeholders: {{week}}, {{from}}, {{to}}, {{total}}, {{table}} (days × tags) and {{tasks}} (per-task breakdown)')
+            .addTextArea(text => {
+                text.inputEl.rows = 8;
+                text.setValue(this.plugin.settings.timesheetTemplate)
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.timesheetTemplate = value || DEFAULT_TIMESHEET_TEMPLATE;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addExtraButton(btn => btn
+                .setIcon('reset')
+                .setTooltip('Restore default template')
+                .onClick(async () => {
+                    this.plugin.settings.timesheetTemplate = DEFAULT_TIMESHEET_TEMPLATE;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
         // Section: Advanced
         containerEl.createEl('h3', { text: 'Advanced' });
 
         new Setting(containerEl)
             .setName('Task Regex Pattern')
-            .setDesc('Regex pattern to identify tasks (default: checkbox markdown)')
+            .setDesc('Regex used by the vault scanner to identify tasks. The first capture group is the status symbol.')
             .addText((text: TextComponent) => text
                 .setPlaceholder('- \\[([^\\]])\\]')
                 .setValue(this.plugin.settings.taskRegex)
                 .onChange(async (value: string) => {
                     this.plugin.settings.taskRegex = value;
                     await this.plugin.saveSettings();
+                    this.rebuildIndex();
                 }));
 
-        // Section: Excluded Folders
-        containerEl.createEl('h3', { text: 'Excluded Folders' });
-        const excludedContainer = containerEl.createDiv('excluded-folders-settings');
+        new Setting(containerEl)
+            .setName('Task ID Style')
+            .setDesc('Tasks moved or clocked from the board get a stable ID so the right line is always edited')
+            .addDropdown(dropdown => dropdown
+                .addOption('block-id', 'Block ID (^ck-xxxx)')
+                .addOption('tasks-id', 'Tasks ID field (🆔 ck-xxxx)')
+                .setValue(this.plugin.settings.taskIdStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskIdStyle = value as TaskIdStyle;
+                    await this.plugin.saveSettings();
+                }));
 
-        this.plugin.settings.excludedFolders.forEach((folder, index) => {
-            new Setting(excludedContainer)
-                .setName(`Folder ${index + 1}`)
-                .addText(text => text
-                    .setPlaceholder('/Archive')
-                    .setValue(folder)
-                    .onChange(async (val) => {
-                        this.plugin.settings.excludedFolders[index] = val;
-                        await this.plugin.saveSettings();
-                    }))
+        // Section: Filter Presets
+        containerEl.createEl('h3', { text: 'Filter Presets' });
+        if (this.plugin.settings.filterPresets.length === 0) {
+            containerEl.createEl('div', {
+                text: 'Save filter combinations with the 💾 button of the board filter bar.',
+                cls: 'setting-item-description'
+            });
+        }
+        this.plugin.settings.filterPresets.forEach((preset, index) => {
+            new Setting(containerEl)
+                .setName(preset.name)
                 .addButton(btn => btn
                     .setIcon('trash')
-                    .setTooltip('Remove Folder')
+                    .setTooltip('Remove Preset')
                     .onClick(async () => {
-                        this.plugin.settings.excludedFolders.splice(index, 1);
+                        this.plugin.settings.filterPresets.splice(index, 1);
                         await this.plugin.saveSettings();
                         this.display();
                     }));
         });
 
-        new Setting(containerEl)
-            .addButton(btn => btn
-                .setButtonText('Add Folder')
-                .onClick(async () => {
-                    this.plugin.settings.excludedFolders.push('');
-                    await this.plugin.saveSettings();
-                    this.display();
-                }));
-
-        // Required plugins info
-        containerEl.createEl('h3', { text: 'Required Plugins' });
+        // Optional plugins info
+        containerEl.createEl('h3', { text: 'Optional Plugins' });
         const infoEl = containerEl.createEl('div', { cls: 'setting-item-info' });
         infoEl.createEl('div', {
-            text: 'This plugin requires the following Obsidian plugins to be installed and enabled:',
+            text: 'This plugin works on its own and integrates with the following Obsidian plugins when enabled:',
             cls: 'setting-item-description'
         });
         const ul = infoEl.createEl('ul');
-        ul.createEl('li', { text: 'obsidian-tasks-plugin - for task management' });
-        ul.createEl('li', { text: 'obsidian-day-planner (optional) - for clock-in/out integration' });
+        ul.createEl('li', { text: 'obsidian-tasks-plugin (optional) - as task source' });
+        ul.createEl('li', { text: 'obsidian-day-planner (optional) - timeblocks in the daily note or clock commands (see Clock Backend)' });
     }
 }
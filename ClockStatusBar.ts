@@ -0,0 +1,82 @@
+/**
+ * Status bar widget for running clocks
+ * Visible even when no Kanban board is open
+ */
+import { Menu, TFile } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { RawTask } from './types';
+import type { RunningClock } from './TaskIndex';
+import { formatDuration, getIntervalDuration } from './clock';
+
+/** Status bar item showing the tasks with an open clock */
+export class ClockStatusBar {
+    plugin: ClockKanbanPlugin;
+    el: HTMLElement;
+    running: RunningClock[] = [];
+
+    constructor(plugin: ClockKanbanPlugin, el: HTMLElement) {
+        this.plugin = plugin;
+        this.el = el;
+        this.el.addClass('clock-kanban-statusbar');
+        this.el.addEventListener('click', (e: MouseEvent) => this.openMenu(e));
+        this.update();
+    }
+
+    /** Read open clock entries from the task index */
+    reload(): void {
+        this.running = this.plugin.taskIndex.getRunningClocks();
+        this.update();
+    }
+
+    /** Refresh the displayed text and elapsed time */
+    update(): void {
+        if (this.running.length === 0) {
+            this.el.hide();
+            return;
+        }
+        this.el.show();
+
+        const elapsed = this.running.reduce((total, r) => total + getIntervalDuration(r.clock), 0);
+        const label = this.running.length === 1
+            ? this.truncate(this.running[0].task.description)
+            : `${this.running.length} running`;
+
+        this.el.setText(`⏱️ ${label} ${formatDuration(elapsed, true)}`);
+        this.el.setAttr('aria-label', this.running
+            .map(r => `${r.task.description} (${formatDuration(getIntervalDuration(r.clock))})`)
+            .join('\n'));
+    }
+
+    /** Menu with clock-out and jump actions for each running task */
+    private openMenu(e: MouseEvent): void {
+        if (this.running.length === 0) return;
+
+        const menu = new Menu();
+        this.running.forEach(({ task }) => {
+            const label = this.truncate(task.description);
+            menu.addItem(item => item
+                .setTitle(`Clock out: ${label}`)
+                .setIcon('square')
+                .onClick(() => this.plugin.clockOutRawTask(task)));
+            menu.addItem(item => item
+                .setTitle(`Go to: ${label}`)
+                .setIcon('file-text')
+                .onClick(() => this.openTask(task)));
+        });
+        menu.showAtMouseEvent(e);
+    }
+
+    /** Open the task line in its source file */
+    private async openTask(task: RawTask): Promise<void> {
+        const file = this.plugin.app.vault.getAbstractFileByPath(task.path);
+        if (file instanceof TFile) {
+            await this.plugin.app.workspace.getLeaf(false).openFile(file, {
+                eState: { line: task.lineNumber }
+            });
+        }
+    }
+
+    private truncate(text: string): string {
+        return text.length > 30 ? `${text.substring(0, 30)}…` : text;
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Time export dialog
+ * Date range, scope and formats of the exported clock entries
+ */
+import { Modal, Notice, Setting, moment } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import { ExportFormat, ExportScope, collectTimeEntries, formatTimeEntries, isInScope } from './exporter';
+
+const SCOPE_LABELS: Record<ExportScope['type'], string> = {
+    board: 'Board',
+    folder: 'Folder',
+    tag: 'Tag',
+};
+
+/** Choose what to export, then write the files to the export folder */
+export class ExportModal extends Modal {
+    plugin: ClockKanbanPlugin;
+    private fromDate: string = moment().startOf('month').format('YYYY-MM-DD');
+    private toDate: string = moment().format('YYYY-MM-DD');
+    private exportScope: ExportScope;
+    private formats: Set<ExportFormat> = new Set(['csv', 'json', 'ics']);
+
+    constructor(plugin: ClockKanbanPlugin) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.exportScope = { type: 'board', value: plugin.getBoard().id };
+    }
+
+    onOpen(): void {
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h3', { text: 'Export tracked time' });
+
+        new Setting(contentEl)
+            .setName('From')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.fromDate).onChange(value => this.fromDate = value);
+            });
+
+        new Setting(contentEl)
+            .setName('To')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.toDate).onChange(value => this.toDate = value);
+            });
+
+        const scopeSetting = new Setting(contentEl)
+            .setName('Scope')
+            .addDropdown(dropdown => {
+                (Object.keys(SCOPE_LABELS) as ExportScope['type'][]).forEach(type => dropdown.addOption(type, SCOPE_LABELS[type]));
+                dropdown.setValue(this.exportScope.type).onChange(value => {
+                    const type = value as ExportScope['type'];
+                    this.exportScope = { type, value: type === 'board' ? this.plugin.getBoard().id : '' };
+                    this.render();
+                });
+            });
+
+        if (this.exportScope.type === 'board') {
+            scopeSetting.addDropdown(dropdown => {
+                this.plugin.settings.boards.forEach(board => dropdown.addOption(board.id, board.name));
+                dropdown.setValue(this.exportScope.value).onChange(value => this.exportScope.value = value);
+            });
+        } else {
+            scopeSetting.addText(text => text
+                .setPlaceholder(this.exportScope.type === 'tag' ? '#client' : 'Projects/Alpha')
+                .setValue(this.exportScope.value)
+                .onChange(value => this.exportScope.value = value));
+        }
+
+        const formatSetting = new Setting(contentEl).setName('Formats');
+        (['csv', 'json', 'ics'] as ExportFormat[]).forEach(format => {
+            const label = formatSetting.controlEl.createEl('label', { cls: 'clock-kanban-export-format' });
+            const checkbox = label.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.formats.has(format);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) this.formats.add(format);
+                else this.formats.delete(format);
+            });
+            label.appendText(format.toUpperCase());
+        });
+
+        new Setting(contentEl)
+            .setDesc(`Files are written to "${this.plugin.settings.exportFolder || '/'}"`)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => this.export()));
+    }
+
+    /** Write one file per selected format */
+    private async export(): Promise<void> {
+        if (!moment(this.fromDate, 'YYYY-MM-DD', true).isValid() || !moment(this.toDate, 'YYYY-MM-DD', true).isValid()) {
+            new Notice('Choose a valid date range');
+            return;
+        }
+        if (this.formats.size === 0) {
+            new Notice('Choose at least one format');
+            return;
+        }
+        if (!this.exportScope.value.trim()) {
+            new Notice(`Enter a ${SCOPE_LABELS[this.exportScope.type].toLowerCase()}`);
+            return;
+        }
+
+        await this.plugin.taskIndex.ensureBuilt();
+        const records = this.plugin.taskIndex.getClockRecords()
+            .filter(record => isInScope(record, this.exportScope, this.plugin.settings.boards));
+        const entries = collectTimeEntries(records, this.fromDate, this.toDate);
+        if (entries.length === 0) {
+            new Notice('No closed clock entries in this range');
+            return;
+        }
+
+        const baseName = `clock-export ${this.fromDate} ${this.toDate}`;
+        for (const format of this.formats) {
+            const path = `${this.plugin.settings.exportFolder}/${baseName}.${format}`;
+            await this.plugin.writeVaultFile(path, formatTimeEntries(entries, format));
+        }
+
+        new Notice(`Exported ${entries.length} clock entries to ${this.plugin.settings.exportFolder || '/'}`);
+        this.close();
+    }
+}
@@ -0,0 +1,1104 @@
+/**
+ * Kanban board rendering
+ * Columns, swimlanes, cards and drag & drop, shared by the board view and embedded boards
+ */
+import { Component, Menu, TFile, moment, Notice, debounce } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { KanbanTask, KanbanColumnType, KanbanColumnConfig, ClockInterval, SwimlaneGroupBy, BoardConfig, TaskFilter, ColumnSort, DragDropEvent, SourceTask } from './types';
+import { formatDuration, getIntervalDuration } from './clock';
+import { INDEX_CHANGED_EVENT } from './TaskIndex';
+import { ClockHistoryModal } from './ClockHistoryModal';
+import { TASK_MOVED_EVENT } from './ClockKanbanApi';
+import { buildTaskUri } from './ProtocolHandler';
+import { readTaskId } from './taskId';
+import { normalizeDate, normalizePriority } from './TaskScanner';
+import { matchesFilter } from './filters';
+import { compareTasks, SORT_KEY_LABELS } from './sorting';
+import { replaceTag, setPriority } from './taskLine';
+
+/** Which tasks a board shows and how */
+export interface BoardScope {
+    /** Board columns, clock column and excluded folders */
+    board: BoardConfig;
+    /** Folder or file the tasks come from ('' or '/' for the whole vault) */
+    folder: string;
+    /** Tag, priority, due date and text filter */
+    filter: TaskFilter;
+    /** Only tasks due today */
+    todayOnly: boolean;
+    /** Names or IDs of the columns shown (hidden ones included), all but the hidden ones when unset */
+    columns?: string[];
+    /** Show completed tasks in every column, the column options when unset */
+    showCompleted?: boolean;
+    /** Swimlane grouping */
+    groupBy: SwimlaneGroupBy;
+}
+
+/** Rendered card and the task state it was rendered from */
+interface RenderedCard {
+    el: HTMLElement;
+    signature: string;
+}
+
+/** Rendered column elements, kept for incremental updates */
+interface RenderedColumn {
+    columnEl: HTMLElement;
+    counter: HTMLElement;
+    tasksContainer: HTMLElement;
+    cards: Map<string, RenderedCard>;
+}
+
+/** Interactive board: columns of task cards with drag & drop and auto clock-in/out */
+export class KanbanBoard extends Component {
+    plugin: ClockKanbanPlugin;
+    tasks: KanbanTask[] = [];
+    columns: KanbanColumnConfig[] = [];
+    draggedTaskId: string | null = null;
+    draggedSourceColumn: KanbanColumnType | null = null;
+    draggedSourceLane: string | null = null;
+    /** Column whose header is being dragged to reorder the board */
+    draggedColumnId: string | null = null;
+    /** Tasks per column over the whole board, for the WIP counters */
+    private boardCounts = new Map<string, number>();
+    /** Card selected with the keyboard or a click */
+    selectedTaskId: string | null = null;
+    private getScope: () => BoardScope;
+    private renderedColumns: Map<string, RenderedColumn> = new Map();
+    private renderedLanes: string[] = [];
+    private boardEl: HTMLElement | null = null;
+    /** Line shown where a dragged card will be dropped */
+    private dropIndicator: HTMLElement | null = null;
+    /** Card the dragged card will be dropped before (null: at the end) */
+    private dropBeforeId: string | null = null;
+    private scheduleUpdate = debounce(() => this.updateBoard(), 300, true);
+
+    constructor(plugin: ClockKanbanPlugin, getScope: () => BoardScope) {
+        super();
+        this.plugin = plugin;
+        this.getScope = getScope;
+    }
+
+    onload(): void {
+        // Tick live timers every second
+        this.registerInterval(window.setInterval(() => this.updateTimers(), 1000));
+
+        // Apply file changes to the affected cards only
+        this.registerEvent(this.plugin.taskIndex.on(INDEX_CHANGED_EVENT, () => this.scheduleUpdate()));
+    }
+
+    onunload(): void {
+        if (this.plugin.selectedBoard === this) {
+            this.plugin.selectedBoard = null;
+        }
+    }
+
+    /** Board configuration of the current scope */
+    get board(): BoardConfig {
+        return this.getScope().board;
+    }
+
+    /** Load tasks from the configured task source */
+    async loadTasks(): Promise<void> {
+        try {
+            const index = this.plugin.taskIndex;
+            if (this.plugin.settings.taskSource === 'tasks-plugin' && !index.getTasksPlugin()) {
+                new Notice('Tasks plugin not found. Install obsidian-tasks-plugin or switch the task source to the vault scanner.');
+                this.tasks = [];
+                return;
+            }
+
+            await index.ensureBuilt();
+            this.tasks = this.parseTasks(index.getSourceTasks());
+            this.boardCounts = this.countBoardTasks();
+        } catch (error) {
+            console.error('Error loading tasks:', error);
+            new Notice('Error loading tasks');
+            this.tasks = [];
+        }
+    }
+
+    /** Reload tasks and re-render the board */
+    async refresh(): Promise<void> {
+        await this.loadTasks();
+        this.renderBoard();
+    }
+
+    /** Parse source tasks to Kanban format, restricted to the scope */
+    parseTasks(rawTasks: SourceTask[]): KanbanTask[] {
+        const scope = this.getScope();
+        const columns = scope.board.columns;
+        return this.toKanbanTasks(rawTasks).filter((task: KanbanTask) => {
+            // Today filter
+            if (scope.todayOnly) {
+                if (!task.dueDate) return false;
+                const today = moment().format('YYYY-MM-DD');
+                return task.dueDate === today;
+            }
+            return true;
+        }).filter((task: KanbanTask) => {
+            // Folder exclusion and folder filtering
+            return !this.isExcluded(task) && this.isInFolder(task, scope.folder);
+        }).filter((task: KanbanTask) => {
+            // Filter bar: tags, priority, due date range and text
+            return matchesFilter(task, scope.filter);
+        }).filter((task: KanbanTask) => {
+            // Filter completed tasks if the column (or the embed) hides them
+            const colConfig = columns.find(c => c.id === task.column);
+            const showCompleted = scope.showCompleted ?? colConfig?.showCompleted !== false;
+
+            if (!showCompleted && task.status === 'done') {
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Every task of the board (its folder scope and excluded folders), ignoring the view folder,
+     * filter bar, Today and completed tasks: WIP limits count these
+     */
+    private getBoardTasks(): KanbanTask[] {
+        return this.toKanbanTasks(this.plugin.taskIndex.getSourceTasks())
+            .filter(task => !this.isExcluded(task) && this.isInFolder(task, this.board.folderFilter));
+    }
+
+    /** Number of board tasks per column */
+    private countBoardTasks(): Map<string, number> {
+        const counts = new Map<string, number>();
+        this.getBoardTasks().forEach(task => counts.set(task.column, (counts.get(task.column) || 0) + 1));
+        return counts;
+    }
+
+    /** Whether a task is in one of the board's excluded folders */
+    private isExcluded(task: KanbanTask): boolean {
+        for (const folder of this.board.excludedFolders || []) {
+            if (!folder) continue;
+            // Normalize folder: remove leading slash if present (Obsidian paths don't start with /)
+            const normalizedFolder = folder.startsWith('/') ? folder.substring(1) : folder;
+            if (task.sourcePath.startsWith(normalizedFolder)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Whether a task comes from a folder or file ('' or '/' for the whole vault) */
+    private isInFolder(task: KanbanTask, folder: string): boolean {
+        if (!folder || folder === '/') return true;
+        return task.sourcePath.startsWith(folder.replace(/^\/+/, ''));
+    }
+
+    /** Map source tasks to cards: column from the status symbol, or the clock column while clocked in */
+    private toKanbanTasks(rawTasks: SourceTask[]): KanbanTask[] {
+        const board = this.board;
+        const columns = board.columns;
+        return rawTasks.map((task: SourceTask, index: number) => {
+            // Get symbol from source task
+            // The symbol is usually in task.status.symbol or task.status if it's a string
+            const symbol = (typeof task.status === 'string' ? task.status : task.status?.symbol) || ' ';
+
+            // Find column matching the symbol (x and X both mean done)
+            const matchingCol = columns.find(c => c.symbols.includes(symbol))
+                || columns.find(c => c.symbols.some(s => s.toLowerCase() === symbol.toLowerCase()));
+
+            // Default to the first column if no match found
+            let column = matchingCol ? matchingCol.id : (columns[0]?.id || '');
+
+            const sourcePath = task.path || task.sourcePath || '';
+            const lineNumber = task.lineNumber || 0;
+
+            // Clock entries: scanned tasks carry them, Tasks plugin tasks are looked up in the index
+            const clocks = task.clocks || this.plugin.taskIndex.getClocks(sourcePath, lineNumber);
+
+            // With auto clock-in/out, tasks with an open clock are shown in the clock column;
+            // otherwise moving a card does not stop its clock and it stays where it was dropped
+            const hasOpenClock = clocks.some((clock: ClockInterval) => !clock.end);
+            if (hasOpenClock && this.plugin.settings.autoClockInOut && board.clockColumn) {
+                column = board.clockColumn;
+            }
+
+            // Stable identity: Tasks 🆔 / scanned ID, or the block link of a Tasks plugin task
+            const stableId: string | undefined = task.id || readTaskId(task.blockLink || '');
+
+            return {
+                id: stableId || `${sourcePath}-${lineNumber || index}`,
+                stableId,
+                description: task.description || task.text || 'Untitled Task',
+                column: column,
+                status: this.mapStatus(symbol),
+                sourcePath,
+                lineNumber,
+                priority: normalizePriority(task.priority),
+                tags: task.tags || [],
+                dueDate: normalizeDate(task.dueDate),
+                doneDate: normalizeDate(task.doneDate),
+                isClockedIn: hasOpenClock || task.isClockedIn || column === board.clockColumn,
+                startTime: task.startTime,
+                endTime: task.endTime,
+                clocks,
+            };
+        });
+    }
+
+    /** Map Tasks plugin status to our status */
+    mapStatus(tasksStatus: string | { symbol: string }): 'todo' | 'in_progress' | 'done' | 'cancelled' {
+        // Handle both string and task objects
+        const symbol = typeof tasksStatus === 'object' ? tasksStatus.symbol : String(tasksStatus);
+        const status = symbol.toUpperCase();
+
+        switch (status) {
+            case 'X':
+                return 'done';
+            case '/': // Common in-progress symbol
+                return 'in_progress';
+            case '-':
+                return 'cancelled';
+            case ' ':
+            default:
+                // Check if symbol matches our working column
+                const clockCol = this.board.columns.find(c => c.id === this.board.clockColumn);
+                if (clockCol && clockCol.symbols.includes(symbol)) {
+                    return 'in_progress';
+                }
+                return 'todo';
+        }
+    }
+
+    /** Render the board into a container */
+    render(container: HTMLElement): void {
+        this.boardEl = container.createDiv({ cls: 'clock-kanban-board' });
+        this.boardEl.addEventListener('keydown', (e: KeyboardEvent) => this.handleKeydown(e));
+        this.renderBoard();
+    }
+
+    /** Whether the board has been rendered */
+    isRendered(): boolean {
+        return !!this.boardEl;
+    }
+
+    /** Render columns (or swimlanes) into the board container */
+    renderBoard(): void {
+        const board = this.boardEl;
+        if (!board) return;
+        const hadFocus = board.contains(document.activeElement);
+        board.empty();
+        board.removeClass('clock-kanban-board-lanes');
+        this.renderedColumns.clear();
+        this.renderedLanes = [];
+        this.columns = this.getShownColumns();
+
+        if (this.getScope().groupBy === 'none') {
+            this.columns.forEach(column => {
+                this.renderColumn(board, column, null);
+            });
+        } else {
+            this.renderLanes(board);
+        }
+
+        if (hadFocus) this.focusSelected();
+    }
+
+    /** Board columns restricted to the scope */
+    private getVisibleColumns(): KanbanColumnConfig[] {
+        const { board, columns } = this.getScope();
+        if (!columns || columns.length === 0) return board.columns.filter(c => !c.hidden);
+        const names = columns.map(name => name.toLowerCase());
+        return board.columns.filter(c => names.includes(c.name.toLowerCase()) || names.includes(c.id.toLowerCase()));
+    }
+
+    /** Visible columns, without the empty ones set to hide when empty */
+    private getShownColumns(): KanbanColumnConfig[] {
+        return this.getVisibleColumns().filter(c => !c.hideWhenEmpty || this.getColumnTasks(c.id, null).length > 0);
+    }
+
+    /** Render one collapsible swimlane per group, each with the full row of columns */
+    renderLanes(board: HTMLElement): void {
+        const settings = this.plugin.settings;
+        const groupBy = this.getScope().groupBy;
+        board.addClass('clock-kanban-board-lanes');
+        this.renderedLanes = this.getLanes();
+
+        this.renderedLanes.forEach(lane => {
+            const laneId = `${groupBy}:${lane}`;
+            const collapsed = settings.collapsedLanes.includes(laneId);
+            const laneEl = board.createDiv({ cls: 'clock-kanban-lane' + (collapsed ? ' collapsed' : '') });
+
+            // Lane header (click to collapse/expand)
+            const header = laneEl.createDiv({ cls: 'clock-kanban-lane-header' });
+            header.createSpan({ cls: 'clock-kanban-lane-toggle', text: collapsed ? '▶' : '▼' });
+            header.createSpan({ cls: 'clock-kanban-lane-title', text: this.getLaneLabel(lane) });
+            header.createSpan({
+                cls: 'clock-kanban-counter',
+                text: `(${this.tasks.filter(t => this.getLaneKey(t) === lane).length})`
+            });
+            header.addEventListener('click', async () => {
+                settings.collapsedLanes = collapsed
+                    ? settings.collapsedLanes.filter(id => id !== laneId)
+                    : [...settings.collapsedLanes, laneId];
+                await this.plugin.saveSettings();
+                this.renderBoard();
+            });
+
+            if (collapsed) return;
+
+            const row = laneEl.createDiv({ cls: 'clock-kanban-lane-columns' });
+            this.columns.forEach(column => {
+                this.renderColumn(row, column, lane);
+            });
+        });
+    }
+
+    /** Swimlane key of a task for the current grouping */
+    getLaneKey(task: KanbanTask): string {
+        switch (this.getScope().groupBy) {
+            case 'tag':
+                return task.tags[0] || '';
+            case 'file':
+                return task.sourcePath;
+            case 'folder':
+                return task.sourcePath.includes('/') ? task.sourcePath.substring(0, task.sourcePath.lastIndexOf('/')) : '';
+            case 'priority':
+                return task.priority || '';
+            default:
+                return '';
+        }
+    }
+
+    /** Sorted swimlane keys present in the tasks (empty group last) */
+    private getLanes(): string[] {
+        const lanes = [...new Set(this.tasks.map(t => this.getLaneKey(t)))];
+        if (this.getScope().groupBy === 'priority') {
+            const order = ['high', 'medium', 'low', ''];
+            return lanes.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+        }
+        return lanes.sort((a, b) => {
+            if (!a) return 1;
+            if (!b) return -1;
+            return a.localeCompare(b);
+        });
+    }
+
+    /** Display name of a swimlane */
+    private getLaneLabel(lane: string): string {
+        switch (this.getScope().groupBy) {
+            case 'tag':
+                return lane || '(no tag)';
+            case 'file':
+                return lane.split('/').pop()?.replace(/\.md$/, '') || lane;
+            case 'folder':
+                return lane || '/ (Root)';
+            case 'priority':
+                return lane ? `${lane.charAt(0).toUpperCase()}${lane.substring(1)} priority` : 'No priority';
+            default:
+                return lane;
+        }
+    }
+
+    /** Key of a rendered column, per swimlane */
+    private getColumnKey(columnType: KanbanColumnType, lane: string | null): string {
+        return lane === null ? columnType : `${lane}|${columnType}`;
+    }
+
+    /** Tasks shown in a column (of a swimlane), by the column sort rule then in manual order */
+    private getColumnTasks(columnType: KanbanColumnType, lane: string | null): KanbanTask[] {
+        const sort = this.getColumnSort(columnType);
+        const order = this.plugin.settings.cardOrder[this.getOrderKey(columnType)] || [];
+        const ranks = new Map(order.map((id, index) => [id, index]));
+        const rank = (task: KanbanTask) => ranks.get(task.id) ?? order.length;
+
+        return this.tasks
+            .filter(t => t.column === columnType && (lane === null || this.getLaneKey(t) === lane))
+            .sort((a, b) => (sort ? compareTasks(a, b, sort) : 0) || rank(a) - rank(b));
+    }
+
+    /** Automatic sort rule of a column, if any */
+    private getColumnSort(columnType: KanbanColumnType): ColumnSort | undefined {
+        return this.board.columns.find(c => c.id === columnType)?.sort;
+    }
+
+    /** Key of the manual card order of a column */
+    private getOrderKey(columnType: KanbanColumnType): string {
+        return `${this.board.id}:${columnType}`;
+    }
+
+    /**
+     * Persist the position of a card in a column, before another card or last
+     * Every visible card of the column is ranked as shown; only the moved card and its drop anchor
+     * are given a stable ID, the others are ranked by their ID ("path-line" until they get one)
+     */
+    async saveCardPosition(task: KanbanTask, columnType: KanbanColumnType, beforeId: string | null): Promise<void> {
+        const columnTasks = this.getColumnTasks(columnType, null).filter(t => t !== task);
+        const before = columnTasks.find(t => t.id === beforeId);
+
+        // Keep the ranks of cards hidden by filters that are still in the column, then the visible cards as shown
+        const key = this.getOrderKey(columnType);
+        const inColumn = new Set(this.getBoardTasks().filter(t => t.column === columnType).map(t => t.id));
+        const order = (this.plugin.settings.cardOrder[key] || [])
+            .filter(id => id !== task.id && inColumn.has(id));
+        columnTasks.forEach(t => {
+            if (!order.includes(t.id)) order.push(t.id);
+        });
+
+        const index = before ? order.indexOf(before.id) : -1;
+        order.splice(index === -1 ? order.length : index, 0, task.id);
+
+        // Tagging changes the ID of the moved card and its anchor
+        const tagged = before ? [task, before] : [task];
+        const previousIds = tagged.map(t => t.id);
+        await this.plugin.ensureTaskIds(tagged);
+        tagged.forEach((t, i) => {
+            const at = order.indexOf(previousIds[i]);
+            if (at !== -1) order[at] = t.id;
+        });
+
+        this.plugin.settings.cardOrder = { ...this.plugin.settings.cardOrder, [key]: order };
+        await this.plugin.saveSettings();
+    }
+
+    /** Forget the position of a card that left a column */
+    private async removeCardPosition(task: KanbanTask, columnType: KanbanColumnType): Promise<void> {
+        const key = this.getOrderKey(columnType);
+        const order = this.plugin.settings.cardOrder[key];
+        if (!order || !order.includes(task.id)) return;
+
+        this.plugin.settings.cardOrder = { ...this.plugin.settings.cardOrder, [key]: order.filter(id => id !== task.id) };
+        await this.plugin.saveSettings();
+    }
+
+    /** Render a column */
+    renderColumn(container: HTMLElement, column: KanbanColumnConfig, lane: string | null): void {
+        const columnEl = container.createDiv({
+            cls: 'clock-kanban-column' + (column.collapsed ? ' clock-kanban-column-collapsed' : ''),
+            attr: { 'data-column': column.id }
+        });
+
+        // Column header (click the arrow to collapse/expand, drag to reorder, right-click for options)
+        const header = columnEl.createDiv({ cls: 'clock-kanban-column-header' });
+        header.style.borderTop = `3px solid ${column.color}`;
+
+        const toggle = header.createSpan({
+            cls: 'clock-kanban-column-toggle',
+            text: column.collapsed ? '▶' : '▼',
+            attr: { 'aria-label': column.collapsed ? 'Expand column' : 'Collapse column' }
+        });
+        toggle.addEventListener('click', () => this.updateColumnOptions(column, { collapsed: !column.collapsed }));
+
+        const titleEl = header.createEl('h3', { text: column.name });
+        this.setupColumnHeaderEvents(header, columnEl, column);
+
+        // Task counter (with WIP limit state, counted over the whole board)
+        const columnTasks = this.getColumnTasks(column.id, lane);
+        const counter = header.createSpan({ cls: 'clock-kanban-counter' });
+        this.updateCounter(column, this.boardCounts.get(column.id) || 0, columnEl, counter);
+
+        // Highlight if it's the Auto-Clock column
+        if (column.id === this.board.clockColumn) {
+            columnEl.addClass('clock-kanban-working-column');
+        }
+
+        // Tasks container
+        const tasksContainer = columnEl.createDiv({
+            cls: 'clock-kanban-tasks-container'
+        });
+
+        // Add tasks to this column
+        const cards = new Map<string, RenderedCard>();
+        columnTasks.forEach(task => {
+            cards.set(task.id, { el: this.renderTask(tasksContainer, task), signature: this.getSignature(task) });
+        });
+        this.renderedColumns.set(this.getColumnKey(column.id, lane), { columnEl, counter, tasksContainer, cards });
+
+        // Drag & drop events on column
+        this.setupColumnDragEvents(columnEl, tasksContainer, column.id, lane);
+    }
+
+    /** Change column options from the board and save them */
+    private async updateColumnOptions(column: KanbanColumnConfig, options: Partial<KanbanColumnConfig>): Promise<void> {
+        Object.assign(column, options);
+        await this.plugin.saveSettings();
+        this.renderBoard();
+    }
+
+    /** Drag a column header onto another to reorder the board, right-click for the column options */
+    private setupColumnHeaderEvents(header: HTMLElement, columnEl: HTMLElement, column: KanbanColumnConfig): void {
+        header.draggable = true;
+        header.addEventListener('dragstart', (e: DragEvent) => {
+            this.draggedColumnId = column.id;
+            columnEl.addClass('clock-kanban-dragging');
+            if (e.dataTransfer) {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', column.id);
+            }
+        });
+        header.addEventListener('dragend', () => {
+            this.draggedColumnId = null;
+            columnEl.removeClass('clock-kanban-dragging');
+        });
+
+        header.addEventListener('contextmenu', (e: MouseEvent) => {
+            e.preventDefault();
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle(column.collapsed ? 'Expand column' : 'Collapse column')
+                .setIcon(column.collapsed ? 'chevrons-left-right' : 'chevrons-right-left')
+                .onClick(() => this.updateColumnOptions(column, { collapsed: !column.collapsed })));
+            menu.addItem(item => item
+                .setTitle('Show completed tasks')
+                .setChecked(column.showCompleted !== false)
+                .onClick(() => this.updateColumnOptions(column, { showCompleted: column.showCompleted === false })));
+            menu.addItem(item => item
+                .setTitle('Hide when empty')
+                .setChecked(!!column.hideWhenEmpty)
+                .onClick(() => this.updateColumnOptions(column, { hideWhenEmpty: !column.hideWhenEmpty })));
+            menu.addSeparator();
+            menu.addItem(item => item
+                .setTitle('Hide column')
+                .setIcon('eye-off')
+                .onClick(async () => {
+                    await this.updateColumnOptions(column, { hidden: true });
+                    new Notice(`${column.name} hidden: show it again in the plugin settings`);
+                }));
+            menu.showAtMouseEvent(e);
+        });
+    }
+
+    /** Move a column to the place of another one, hidden columns keep their place */
+    private async moveColumn(columnId: string, targetId: string): Promise<void> {
+        const columns = this.board.columns;
+        const from = columns.findIndex(c => c.id === columnId);
+        const to = columns.findIndex(c => c.id === targetId);
+        if (from === -1 || to === -1 || from === to) return;
+
+        const [moved] = columns.splice(from, 1);
+        columns.splice(to, 0, moved);
+        await this.plugin.saveSettings();
+        this.renderBoard();
+    }
+
+    /** Update a column counter and its WIP limit state */
+    private updateCounter(column: KanbanColumnConfig, count: number, columnEl: HTMLElement, counter: HTMLElement): void {
+        const limit = column.wipLimit;
+        if (!limit) {
+            counter.setText(`(${count})`);
+            return;
+        }
+
+        counter.setText(`(${count}/${limit})`);
+        columnEl.toggleClass('clock-kanban-column-at-limit', count === limit);
+        columnEl.toggleClass('clock-kanban-column-over-limit', count > limit);
+        counter.setAttr('title', count > limit ? `Over WIP limit of ${limit}` : `WIP limit: ${limit}`);
+    }
+
+    /** Render a task */
+    renderTask(container: HTMLElement, task: KanbanTask): HTMLElement {
+        const taskEl = container.createDiv({
+            cls: 'clock-kanban-task' + (task.id === this.selectedTaskId ? ' clock-kanban-task-selected' : ''),
+            attr: { 'data-task-id': task.id, 'draggable': 'true', 'tabindex': '0' }
+        });
+
+        // Clock-in indicator with live elapsed time of the open clock
+        if (task.isClockedIn) {
+            taskEl.addClass('clock-kanban-task-active');
+            const indicator = taskEl.createDiv({ cls: 'clock-kanban-indicator' });
+            indicator.setText('⏱️');
+
+            const openClock = task.clocks.find(clock => !clock.end);
+            if (openClock) {
+                const timer = indicator.createSpan({
+                    cls: 'clock-kanban-timer',
+                    attr: { 'data-clock-start': openClock.start }
+                });
+                timer.setText(formatDuration(getIntervalDuration(openClock), true));
+            }
+        }
+
+        // Task content
+        const content = taskEl.createDiv({ cls: 'clock-kanban-task-content' });
+
+        // Task text
+        const desc = content.createDiv({ cls: 'clock-kanban-task-desc' });
+        desc.setText(task.description);
+
+        // Metadata
+        const meta = content.createDiv({ cls: 'clock-kanban-task-meta' });
+
+        // Tags
+        if (task.tags && task.tags.length > 0) {
+            const tagsEl = meta.createDiv({ cls: 'clock-kanban-task-tags' });
+            task.tags.forEach(tag => {
+                tagsEl.createSpan({ cls: 'clock-kanban-tag', text: tag });
+            });
+        }
+
+        // Priority
+        if (task.priority && task.priority !== 'none' as any && task.priority !== '3' as any) {
+            const priorityColors: Record<string, string> = {
+                low: '#6b7280',
+                medium: '#f59e0b',
+                high: '#ef4444'
+            };
+            const priorityEl = meta.createSpan({
+                cls: 'clock-kanban-priority',
+                text: `!${task.priority.charAt(0).toUpperCase()}`
+            });
+            priorityEl.style.color = priorityColors[task.priority] || '#6b7280';
+        }
+
+        // Due date
+        if (task.dueDate) {
+            const dueEl = meta.createSpan({ cls: 'clock-kanban-due' });
+            dueEl.setText(`📅 ${task.dueDate}`);
+        }
+
+        // Accumulated time of past clock entries
+        const trackedTime = task.clocks
+            .filter(clock => clock.end)
+            .reduce((total, clock) => total + getIntervalDuration(clock), 0);
+        if (trackedTime > 0) {
+            const totalEl = meta.createSpan({ cls: 'clock-kanban-total' });
+            totalEl.setText(`Σ ${formatDuration(trackedTime)}`);
+            totalEl.setAttr('title', 'Total tracked time');
+        }
+
+        // Drag & drop events
+        this.setupTaskDragEvents(taskEl, task);
+
+        // Double-click to open task
+        taskEl.addEventListener('dblclick', () => {
+            this.openTask(task);
+        });
+
+        // Focus (click or keyboard) selects the card
+        taskEl.addEventListener('focus', () => this.select(task.id));
+
+        // Context menu
+        taskEl.addEventListener('contextmenu', (e: MouseEvent) => {
+            e.preventDefault();
+            this.select(task.id);
+
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle('Open task')
+                .setIcon('file-text')
+                .onClick(() => this.openTask(task)));
+            menu.addItem(item => item
+                .setTitle(task.isClockedIn ? 'Clock out' : 'Clock in')
+                .setIcon(task.isClockedIn ? 'square' : 'play')
+                .onClick(() => this.plugin.toggleClock(task, this.board)));
+            menu.addItem(item => item
+                .setTitle('Edit clock history…')
+                .setIcon('history')
+                .onClick(() => new ClockHistoryModal(this.plugin, task).open()));
+            menu.addItem(item => item
+                .setTitle(`Copy ${task.isClockedIn ? 'clock-out' : 'clock-in'} URI`)
+                .setIcon('link')
+                .onClick(async () => {
+                    // URIs address the task by its stable ID
+                    await this.plugin.ensureTaskIds([task]);
+                    await navigator.clipboard.writeText(buildTaskUri(task.isClockedIn ? 'clock-out' : 'clock-in', task.id));
+                    new Notice('URI copied to clipboard');
+                }));
+            menu.showAtMouseEvent(e);
+        });
+
+        return taskEl;
+    }
+
+    /** Task state a card depends on, to detect cards that need re-rendering */
+    private getSignature(task: KanbanTask): string {
+        return JSON.stringify(task);
+    }
+
+    /** Apply index changes to the rendered board, touching only cards that changed */
+    updateBoard(): void {
+        if (this.renderedColumns.size === 0) return;
+
+        // Never swap cards under an ongoing drag
+        if (this.draggedTaskId) {
+            this.scheduleUpdate();
+            return;
+        }
+
+        this.tasks = this.parseTasks(this.plugin.taskIndex.getSourceTasks());
+        this.boardCounts = this.countBoardTasks();
+
+        // A column set to hide when empty appeared or disappeared
+        if (this.getShownColumns().map(c => c.id).join('\n') !== this.columns.map(c => c.id).join('\n')) {
+            this.renderBoard();
+            return;
+        }
+
+        // Swimlanes appeared or disappeared: the layout itself changed
+        if (this.getScope().groupBy !== 'none') {
+            if (this.getLanes().join('\n') !== this.renderedLanes.join('\n')) {
+                this.renderBoard();
+                return;
+            }
+            this.renderedLanes.forEach(lane => this.columns.forEach(column => this.updateColumn(column, lane)));
+            return;
+        }
+
+        this.columns.forEach(column => this.updateColumn(column, null));
+    }
+
+    /** Re-render changed cards of a column and restore their order */
+    private updateColumn(column: KanbanColumnConfig, lane: string | null): void {
+        const rendered = this.renderedColumns.get(this.getColumnKey(column.id, lane));
+        if (!rendered) return;
+
+        const columnTasks = this.getColumnTasks(column.id, lane);
+        this.updateCounter(column, this.boardCounts.get(column.id) || 0, rendered.columnEl, rendered.counter);
+
+        // 1. Keep unchanged cards, render new or changed ones
+        const cards = new Map<string, RenderedCard>();
+        columnTasks.forEach(task => {
+            const signature = this.getSignature(task);
+            const existing = rendered.cards.get(task.id);
+            if (existing && existing.signature === signature) {
+                cards.set(task.id, existing);
+            } else {
+                const hadFocus = !!existing && existing.el === document.activeElement;
+                existing?.el.remove();
+                const el = this.renderTask(rendered.tasksContainer, task);
+                cards.set(task.id, { el, signature });
+                if (hadFocus) el.focus();
+            }
+        });
+
+        // 2. Remove cards that left the column
+        rendered.cards.forEach((card, id) => {
+            if (!cards.has(id)) card.el.remove();
+        });
+
+        // 3. Restore order, moving only misplaced cards
+        let cursor = rendered.tasksContainer.firstElementChild;
+        columnTasks.forEach(task => {
+            const card = cards.get(task.id);
+            if (!card) return;
+            if (card.el === cursor) {
+                cursor = cursor.nextElementSibling;
+            } else {
+                rendered.tasksContainer.insertBefore(card.el, cursor);
+            }
+        });
+
+        rendered.cards = cards;
+    }
+
+    /** Selected card task, if still on the board */
+    get selectedTask(): KanbanTask | undefined {
+        return this.tasks.find(t => t.id === this.selectedTaskId);
+    }
+
+    /** Select a card; commands act on the selection of the last focused board */
+    private select(taskId: string): void {
+        this.selectedTaskId = taskId;
+        this.plugin.selectedBoard = this;
+        this.boardEl?.querySelectorAll('.clock-kanban-task-selected').forEach(el => el.removeClass('clock-kanban-task-selected'));
+        this.getCardEl(taskId)?.addClass('clock-kanban-task-selected');
+    }
+
+    /** Give keyboard focus back to the selected card */
+    focusSelected(): void {
+        if (this.selectedTaskId) {
+            this.getCardEl(this.selectedTaskId)?.focus();
+        }
+    }
+
+    private getCardEl(taskId: string): HTMLElement | null {
+        return this.boardEl?.querySelector<HTMLElement>(`.clock-kanban-task[data-task-id="${CSS.escape(taskId)}"]`) || null;
+    }
+
+    /** Arrow keys move the selection, Enter opens the task, Space toggles its clock */
+    private async handleKeydown(e: KeyboardEvent): Promise<void> {
+        const taskEl = (e.target as HTMLElement).closest<HTMLElement>('.clock-kanban-task');
+        const task = this.tasks.find(t => t.id === taskEl?.getAttribute('data-task-id'));
+        if (!taskEl || !task) return;
+
+        switch (e.key) {
+            case 'ArrowUp':
+            case 'ArrowDown': {
+                const cards = this.getSiblingCards(taskEl);
+                const next = cards[cards.indexOf(taskEl) + (e.key === 'ArrowDown' ? 1 : -1)];
+                next?.focus();
+                break;
+            }
+            case 'ArrowLeft':
+            case 'ArrowRight':
+                this.focusAdjacentColumn(taskEl, e.key === 'ArrowRight' ? 1 : -1);
+                break;
+            case 'Enter':
+                this.openTask(task);
+                break;
+            case ' ':
+                await this.plugin.toggleClock(task, this.board);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    }
+
+    /** Cards of the column (and swimlane) of a card */
+    private getSiblingCards(taskEl: HTMLElement): HTMLElement[] {
+        const container = taskEl.closest('.clock-kanban-tasks-container');
+        return container ? Array.from(container.querySelectorAll<HTMLElement>('.clock-kanban-task')) : [];
+    }
+
+    /** Focus the card at the same height in the nearest non-empty column to the left or right */
+    private focusAdjacentColumn(taskEl: HTMLElement, step: number): void {
+        const columnEl = taskEl.closest('.clock-kanban-column');
+        const row = columnEl?.parentElement;
+        if (!columnEl || !row) return;
+
+        const columns = Array.from(row.children).filter(el => el.hasClass('clock-kanban-column'));
+        const index = this.getSiblingCards(taskEl).indexOf(taskEl);
+        for (let i = columns.indexOf(columnEl) + step; i >= 0 && i < columns.length; i += step) {
+            const cards = Array.from(columns[i].querySelectorAll<HTMLElement>('.clock-kanban-task'));
+            if (cards.length > 0) {
+                cards[Math.min(index, cards.length - 1)].focus();
+                return;
+            }
+        }
+    }
+
+    /** Move the selected card to the next (1) or previous (-1) column */
+    async moveSelected(step: number): Promise<void> {
+        const task = this.selectedTask;
+        if (!task) return;
+
+        const index = this.columns.findIndex(c => c.id === task.column);
+        const target = this.columns[index + step];
+        if (index === -1 || !target) return;
+
+        await this.handleTaskMove(task, task.column, target.id);
+        // The move may have tagged the task with a stable ID
+        this.selectedTaskId = task.id;
+        this.focusSelected();
+    }
+
+    /** Update live timers of clocked-in cards */
+    updateTimers(): void {
+        if (document.hidden || !this.boardEl || !this.boardEl.isShown()) return;
+
+        this.boardEl.querySelectorAll('.clock-kanban-timer').forEach(el => {
+            const start = el.getAttribute('data-clock-start');
+            if (!start) return;
+            el.setText(formatDuration(getIntervalDuration({ start }), true));
+        });
+    }
+
+    /** Setup drag events on a task */
+    setupTaskDragEvents(taskEl: HTMLElement, task: KanbanTask): void {
+        taskEl.addEventListener('dragstart', (e: DragEvent) => {
+            this.draggedTaskId = task.id;
+            this.draggedSourceColumn = task.column;
+            this.draggedSourceLane = this.getLaneKey(task);
+            taskEl.addClass('clock-kanban-dragging');
+
+            if (e.dataTransfer) {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', task.id);
+            }
+        });
+
+        taskEl.addEventListener('dragend', () => {
+            taskEl.removeClass('clock-kanban-dragging');
+            this.draggedTaskId = null;
+            this.draggedSourceColumn = null;
+            this.draggedSourceLane = null;
+
+            // Clean up highlights
+            document.querySelectorAll('.clock-kanban-column-dragover').forEach(el => {
+                el.removeClass('clock-kanban-column-dragover');
+            });
+            this.hideDropIndicator();
+        });
+    }
+
+    /** Show the drop indicator before the card under the pointer */
+    private showDropIndicator(tasksContainer: HTMLElement, clientY: number): void {
+        const cards = Array.from(tasksContainer.querySelectorAll<HTMLElement>('.clock-kanban-task:not(.clock-kanban-dragging)'));
+        const before = cards.find(card => {
+            const rect = card.getBoundingClientRect();
+            return clientY < rect.top + rect.height / 2;
+        }) || null;
+
+        if (!this.dropIndicator) {
+            this.dropIndicator = createDiv({ cls: 'clock-kanban-drop-indicator' });
+        }
+        this.dropBeforeId = before?.getAttribute('data-task-id') || null;
+        tasksContainer.insertBefore(this.dropIndicator, before);
+    }
+
+    private hideDropIndicator(): void {
+        this.dropIndicator?.remove();
+        this.dropBeforeId = null;
+    }
+
+    /** Setup drag events on a column */
+    setupColumnDragEvents(columnEl: HTMLElement, tasksContainer: HTMLElement, columnType: KanbanColumnType, lane: string | null): void {
+        columnEl.addEventListener('dragover', (e: DragEvent) => {
+            e.preventDefault();
+            if (e.dataTransfer) {
+                e.dataTransfer.dropEffect = 'move';
+            }
+            columnEl.addClass(this.draggedColumnId ? 'clock-kanban-column-drop-target' : 'clock-kanban-column-dragover');
+            if (this.draggedTaskId) {
+                this.showDropIndicator(tasksContainer, e.clientY);
+            }
+        });
+
+        columnEl.addEventListener('dragleave', (e: DragEvent) => {
+            columnEl.removeClass('clock-kanban-column-dragover', 'clock-kanban-column-drop-target');
+            if (!columnEl.contains(e.relatedTarget as Node | null)) {
+                this.hideDropIndicator();
+            }
+        });
+
+        columnEl.addEventListener('drop', async (e: DragEvent) => {
+            e.preventDefault();
+            columnEl.removeClass('clock-kanban-column-dragover', 'clock-kanban-column-drop-target');
+            const beforeId = this.dropBeforeId;
+            this.hideDropIndicator();
+
+            if (this.draggedColumnId) {
+                await this.moveColumn(this.draggedColumnId, columnType);
+                return;
+            }
+
+            if (!this.draggedTaskId || !this.draggedSourceColumn) {
+                return;
+            }
+
+            // Find task
+            const task = this.tasks.find(t => t.id === this.draggedTaskId);
+            if (!task) {
+                return;
+            }
+
+            // Same column (of the same swimlane): reorder only
+            const sourceColumn = this.draggedSourceColumn;
+            const changesLane = lane !== null && lane !== this.draggedSourceLane;
+            if (sourceColumn === columnType && !changesLane) {
+                const sort = this.getColumnSort(columnType);
+                if (sort) {
+                    const name = this.board.columns.find(c => c.id === columnType)?.name || columnType;
+                    new Notice(`${name} is sorted by ${SORT_KEY_LABELS[sort.key].toLowerCase()}: manual order only applies to ties`);
+                }
+                if (beforeId !== task.id) {
+                    await this.saveCardPosition(task, columnType, beforeId);
+                    this.renderBoard();
+                }
+                return;
+            }
+
+            // Handle move
+            await this.handleTaskMove(task, sourceColumn, columnType, changesLane ? lane : null);
+
+            // Keep the drop position unless the move was refused (e.g. WIP limit)
+            if (task.column === columnType && sourceColumn !== columnType) {
+                await this.removeCardPosition(task, sourceColumn);
+                const ordered = beforeId || this.plugin.settings.cardOrder[this.getOrderKey(columnType)];
+                if (ordered && !this.getColumnSort(columnType)) {
+                    await this.saveCardPosition(task, columnType, beforeId);
+                    this.renderBoard();
+                }
+            }
+        });
+    }
+
+    /** Handle moving a task between columns */
+    async handleTaskMove(
+        task: KanbanTask,
+        sourceColumn: KanbanColumnType,
+        targetColumn: KanbanColumnType,
+        targetLane: string | null = null
+    ): Promise<boolean> {
+        const settings = this.plugin.settings;
+        const board = this.board;
+        const enteringClockColumn = targetColumn === board.clockColumn && sourceColumn !== board.clockColumn;
+
+        // 0. Enforce the WIP limit of the target column
+        const targetConfig = board.columns.find(c => c.id === targetColumn);
+        if (targetConfig?.wipLimit && sourceColumn !== targetColumn) {
+            const count = this.getBoardTasks().filter(t => t.column === targetColumn && t.id !== task.id).length;
+            if (count >= targetConfig.wipLimit) {
+                new Notice(`${targetConfig.name} is at its WIP limit (${targetConfig.wipLimit})`);
+                return false;
+            }
+        }
+
+        // 0b. Retag or reprioritize when changing swimlane
+        if (targetLane !== null && targetLane !== this.getLaneKey(task)) {
+            await this.moveTaskToLane(task, targetLane);
+        }
+
+        // 1. Clock-out if leaving the clock column
+        if (sourceColumn === board.clockColumn && targetColumn !== board.clockColumn && settings.autoClockInOut) {
+            await this.plugin.clockOut(task);
+            task.isClockedIn = false;
+            task.endTime = moment().format(settings.timeFormat);
+        }
+
+        // 2. Single active clock: pause every other running task first
+        if (enteringClockColumn && settings.autoClockInOut && settings.singleActiveClock) {
+            await this.plugin.pauseRunningClocks(task, board);
+        }
+
+        // 3. Clock-in if entering the clock column
+        if (enteringClockColumn && settings.autoClockInOut) {
+            await this.plugin.clockIn(task);
+            task.isClockedIn = true;
+            task.startTime = moment().format(settings.timeFormat);
+        }
+
+        // 4. Update task column
+        task.column = targetColumn;
+
+        // 5. Update status in source file, running the column automations
+        await this.plugin.updateTaskStatus(task, targetColumn, board, sourceColumn);
+
+        // 6. Re-render
+        this.renderBoard();
+
+        // 7. Notify API listeners
+        const event: DragDropEvent = { taskId: task.id, boardId: board.id, sourceColumn, targetColumn, timestamp: new Date() };
+        this.plugin.api.trigger(TASK_MOVED_EVENT, event);
+
+        // Notification
+        if (this.plugin.settings.debugMessages) {
+            new Notice(`Moved "${task.description.substring(0, 30)}..." to ${targetConfig?.name || targetColumn}`);
+        }
+        return true;
+    }
+
+
+    /** Apply a swimlane change to the task line when the grouping allows it */
+    async moveTaskToLane(task: KanbanTask, lane: string): Promise<void> {
+        switch (this.getScope().groupBy) {
+            case 'tag': {
+                const oldTag = task.tags[0];
+                await this.plugin.updateTaskLine(task, line => replaceTag(line, oldTag, lane));
+                task.tags = lane ? [lane, ...task.tags.slice(1)] : task.tags.slice(1);
+                break;
+            }
+            case 'priority': {
+                const priority = lane ? lane as KanbanTask['priority'] : undefined;
+                await this.plugin.updateTaskLine(task, line => setPriority(line, priority));
+                task.priority = priority;
+                break;
+            }
+            default:
+                new Notice('Cards stay in their own file: only the column was changed');
+        }
+    }
+
+    /** Open task in its source file */
+    openTask(task: KanbanTask): void {
+        const file = this.plugin.app.vault.getAbstractFileByPath(task.sourcePath);
+        if (file instanceof TFile) {
+            this.plugin.app.workspace.openLinkText(file.path, '', false);
+        }
+    }
+}
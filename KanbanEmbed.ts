@@ -0,0 +1,101 @@
+/**
+ * Board embedded in a note with a `clock-kanban` code block
+ *
+ * ```clock-kanban
+ * board: Dev
+ * folder: Projects/Alpha
+ * tags: #alpha, #review
+ * columns: TODO, Working, Done
+ * completed: true
+ * ```
+ */
+import { MarkdownRenderChild } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import { EMPTY_FILTER } from './types';
+import { BoardScope, KanbanBoard } from './KanbanBoard';
+
+/** Code block language of embedded boards */
+export const EMBED_CODE_BLOCK = 'clock-kanban';
+
+/** Parameters of an embedded board */
+export interface EmbedOptions {
+    /** Board name or ID, the active board when unset */
+    board?: string;
+    /** Folder or file the tasks come from, the board scope when unset */
+    folder?: string;
+    /** Only tasks with all of these tags */
+    tags: string[];
+    /** Names of the columns shown, all when empty */
+    columns: string[];
+    /** Show completed tasks in every column, the column options when unset */
+    completed?: boolean;
+}
+
+/** Parse the `key: value` lines of a code block */
+export function parseEmbedOptions(source: string): EmbedOptions {
+    const options: EmbedOptions = { tags: [], columns: [] };
+    const list = (value: string) => value.split(',').map(item => item.trim()).filter(item => !!item);
+
+    source.split('\n').forEach(line => {
+        const match = /^\s*(\w+)\s*:\s*(.*?)\s*$/.exec(line);
+        if (!match) return;
+        const [, key, value] = match;
+
+        switch (key.toLowerCase()) {
+            case 'board':
+                options.board = value;
+                break;
+            case 'folder':
+                options.folder = value;
+                break;
+            case 'tags':
+                options.tags = list(value).map(tag => (tag.startsWith('#') ? tag : `#${tag}`));
+                break;
+            case 'columns':
+                options.columns = list(value);
+                break;
+            case 'completed':
+                options.completed = /^(true|yes|on|1)$/i.test(value);
+                break;
+        }
+    });
+
+    return options;
+}
+
+/** Live board rendered in place of the code block */
+export class KanbanEmbed extends MarkdownRenderChild {
+    plugin: ClockKanbanPlugin;
+    options: EmbedOptions;
+    kanban: KanbanBoard;
+
+    constructor(containerEl: HTMLElement, plugin: ClockKanbanPlugin, options: EmbedOptions) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.options = options;
+        this.kanban = this.addChild(new KanbanBoard(plugin, () => this.getScope()));
+    }
+
+    async onload(): Promise<void> {
+        this.containerEl.addClass('clock-kanban-embed');
+        await this.kanban.loadTasks();
+        this.kanban.render(this.containerEl);
+    }
+
+    /** Tasks and columns selected by the code block */
+    private getScope(): BoardScope {
+        const { settings } = this.plugin;
+        const board = settings.boards.find(b => b.name === this.options.board)
+            || this.plugin.getBoard(this.options.board);
+
+        return {
+            board,
+            folder: this.options.folder ?? board.folderFilter,
+            filter: { ...EMPTY_FILTER, includeTags: this.options.tags },
+            todayOnly: false,
+            columns: this.options.columns,
+            showCompleted: this.options.completed,
+            groupBy: 'none',
+        };
+    }
+}
@@ -2,23 +2,44 @@
  * Custom Kanban view for Obsidian
  * Displays tasks in drag & drop columns
  */
-import { ItemView, WorkspaceLeaf, TFile, TFolder, TAbstractFile, moment, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, TFile, TFolder, Notice, debounce, ViewStateResult } from 'obsidian';
 import type ClockKanbanPlugin from './main';
-import type { KanbanTask, KanbanColumnType, KanbanColumnConfig } from './types';
-import { DEFAULT_COLUMNS } from './types';
+import type { KanbanTask, KanbanColumnType, SwimlaneGroupBy, PriorityFilter, BoardConfig } from './types';
+import { EMPTY_FILTER } from './types';
+import { isFilterEmpty } from './filters';
+import { PromptModal } from './PromptModal';
+import { BoardScope, KanbanBoard } from './KanbanBoard';
 
 /** Unique view identifier */
 export const VIEW_TYPE_CLOCK_KANBAN = 'clock-kanban-view';
 
+/** Swimlane grouping options */
+const SWIMLANE_LABELS: Record<SwimlaneGroupBy, string> = {
+    none: 'No swimlanes',
+    tag: 'Lanes by tag',
+    file: 'Lanes by file',
+    folder: 'Lanes by folder',
+    priority: 'Lanes by priority',
+};
+
+/** View state saved in the workspace */
+interface KanbanViewState {
+    boardId?: string;
+    folder?: string | null;
+}
+
 /** Custom Kanban view */
 export class KanbanView extends ItemView {
     plugin: ClockKanbanPlugin;
     containerEl: HTMLElement;
-    tasks: KanbanTask[] = [];
-    columns: KanbanColumnConfig[] = [];
-    draggedTaskId: string | null = null;
-    draggedSourceColumn: KanbanColumnType | null = null;
+    /** Columns, cards and drag & drop */
+    kanban: KanbanBoard;
+    /** Board shown in this view */
+    boardId = '';
+    /** Folder or file narrowing this view, the board scope when null */
+    private folderFilter: string | null = null;
     private isTodayFilterActive: boolean = false;
+    private applyTextFilter = debounce(() => this.applyFilter(), 300, true);
 
     private normalizePath(path: string): string {
         if (!path || path === '/') return '/';
@@ -34,6 +55,7 @@ export class KanbanView extends ItemView {
     constructor(leaf: WorkspaceLeaf, plugin: ClockKanbanPlugin) {
         super(leaf);
         this.plugin = plugin;
+        this.kanban = this.addChild(new KanbanBoard(plugin, () => this.getScope()));
     }
 
     getViewType(): string {
@@ -41,156 +63,59 @@ export class KanbanView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'Clock Kanban';
+        return this.plugin.settings.boards.length > 1 ? `Clock Kanban: ${this.board.name}` : 'Clock Kanban';
     }
 
-    getIcon(): string {
-        return 'kanban'; // Obsidian Kanban icon
+    /** Board configuration of this view */
+    get board(): BoardConfig {
+        return this.plugin.getBoard(this.boardId);
     }
 
-    async onOpen(): Promise<void> {
-        this.containerEl = this.contentEl.createDiv({ cls: 'clock-kanban-container' });
-        this.columns = this.plugin.settings.columns;
-        await this.loadTasks();
-        this.render();
+    /** Tasks shown on the board */
+    get tasks(): KanbanTask[] {
+        return this.kanban.tasks;
     }
 
-    async onClose(): Promise<void> {
-        // Cleanup if needed
-        return Promise.resolve();
+    /** Tasks, columns and grouping shown by this view */
+    private getScope(): BoardScope {
+        const settings = this.plugin.settings;
+        return {
+            board: this.board,
+            folder: this.getFsPath(this.getFolderFilter()),
+            filter: settings.activeFilter,
+            todayOnly: this.isTodayFilterActive,
+            groupBy: settings.groupBy,
+        };
     }
 
-    /** Load tasks from obsidian-tasks-plugin */
-    async loadTasks(): Promise<void> {
-        try {
-            const appAny = this.app as any;
-            const tasksPlugin = appAny.plugins?.plugins?.['obsidian-tasks-plugin'];
-            if (!tasksPlugin) {
-                new Notice('Tasks plugin not found. Please install obsidian-tasks-plugin.');
-                this.tasks = [];
-                return;
-            }
-
-            const rawTasks = tasksPlugin.getTasks?.() || [];
-            this.tasks = this.parseTasks(rawTasks);
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), boardId: this.board.id, folder: this.folderFilter };
+    }
 
-            // Second pass: check for active clocks in the vault to force into the clock column
-            for (const task of this.tasks) {
-                if (await this.plugin.checkIfTaskIsClockedIn(task)) {
-                    task.isClockedIn = true;
-                    task.column = this.plugin.settings.clockColumn;
-                }
-            }
-        } catch (error) {
-            console.error('Error loading tasks:', error);
-            new Notice('Error loading tasks from Tasks plugin');
-            this.tasks = [];
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const viewState = (state || {}) as KanbanViewState;
+        if (viewState.boardId) {
+            this.boardId = viewState.boardId;
+            this.folderFilter = viewState.folder ?? null;
+            if (this.kanban.isRendered()) await this.refresh();
         }
+        await super.setState(state, result);
     }
 
-    /** Parse Tasks plugin tasks to Kanban format */
-    parseTasks(rawTasks: any[]): KanbanTask[] {
-        const columns = this.plugin.settings.columns;
-        return rawTasks.map((task: any, index: number) => {
-            // Get symbol from Tasks plugin task
-            // The symbol is usually in task.status.symbol or task.status if it's a string
-            const symbol = task.status?.symbol || (typeof task.status === 'string' ? task.status : ' ');
-
-            // Find column matching the symbol
-            const matchingCol = columns.find(c => c.symbol === symbol);
-
-            // Default to the first column if no match found
-            let column = matchingCol ? matchingCol.name : (columns[0]?.name || 'TODO');
-
-            // If it's x but no matching column found, try to find a column named 'Done'
-            if (!matchingCol && (symbol === 'x' || symbol === 'X')) {
-                const doneCol = columns.find(c => c.name.toLowerCase() === 'done');
-                if (doneCol) column = doneCol.name;
-            }
+    getIcon(): string {
+        return 'kanban'; // Obsidian Kanban icon
+    }
 
-            return {
-                id: task.id || `${task.path}-${task.lineNumber || index}`,
-                description: task.description || task.text || 'Untitled Task',
-                column: column,
-                status: this.mapStatus(status),
-                sourcePath: task.path || task.sourcePath || '',
-                lineNumber: task.lineNumber || 0,
-                priority: task.priority,
-                tags: task.tags || [],
-                dueDate: task.dueDate,
-                isClockedIn: task.isClockedIn || column === this.plugin.settings.clockColumn,
-                startTime: task.startTime,
-                endTime: task.endTime,
-            };
-        }).filter((task: KanbanTask) => {
-            // Today filter
-            if (this.isTodayFilterActive) {
-                if (!task.dueDate) return false;
-                const today = moment().format('YYYY-MM-DD');
-                return task.dueDate === today;
-            }
-            return true;
-        }).filter((task: KanbanTask) => {
-            // Folder exclusion
-            const excludedFolders = this.plugin.settings.excludedFolders;
-            if (excludedFolders && excludedFolders.length > 0) {
-                for (const folder of excludedFolders) {
-                    if (!folder) continue;
-                    // Normalize folder: remove leading slash if present (Obsidian paths don't start with /)
-                    const normalizedFolder = folder.startsWith('/') ? folder.substring(1) : folder;
-                    // Check if path starts with folder + / to ensure it's a sub-directory match, 
-                    // or exact match if folder is the same as task source path (though tasks are in files)
-                    if (task.sourcePath.startsWith(normalizedFolder)) {
-                        return false;
-                    }
-                }
-            }
-            return true;
-        }).filter((task: KanbanTask) => {
-            // Folder filtering
-            const folderFilter = this.plugin.settings.folderFilter;
-            if (folderFilter && folderFilter !== '/') {
-                const normalizedFilter = this.getFsPath(folderFilter);
-                if (!task.sourcePath.startsWith(normalizedFilter)) {
-                    return false;
-                }
-            }
-            return true;
-        }).filter((task: KanbanTask) => {
-            // Filter completed tasks if option is disabled
-            // Find if current column matches a 'done' symbol
-            const colConfig = this.plugin.settings.columns.find(c => c.name === task.column);
-            const isDone = colConfig?.symbol === 'x' || colConfig?.symbol === 'X';
-
-            if (!this.plugin.settings.showCompletedTasks && isDone) {
-                return false;
-            }
-            return true;
-        });
+    async onOpen(): Promise<void> {
+        this.containerEl = this.contentEl.createDiv({ cls: 'clock-kanban-container' });
+        this.boardId = this.boardId || this.plugin.settings.activeBoardId;
+        await this.loadTasks();
+        this.render();
     }
 
-    /** Map Tasks plugin status to our status */
-    mapStatus(tasksStatus: string | any): 'todo' | 'in_progress' | 'done' | 'cancelled' {
-        // Handle both string and task objects
-        const symbol = typeof tasksStatus === 'object' ? tasksStatus.symbol : String(tasksStatus);
-        const status = symbol.toUpperCase();
-
-        switch (status) {
-            case 'X':
-                return 'done';
-            case '/': // Common in-progress symbol
-                return 'in_progress';
-            case '-':
-                return 'cancelled';
-            case ' ':
-            default:
-                // Check if symbol matches our working column
-                const clockCol = this.plugin.settings.columns.find(c => c.name === this.plugin.settings.clockColumn);
-                if (clockCol && symbol === clockCol.symbol) {
-                    return 'in_progress';
-                }
-                return 'todo';
-        }
+    async onClose(): Promise<void> {
+        // Cleanup if needed
+        return Promise.resolve();
     }
 
     /** Main Kanban render */
@@ -201,6 +126,16 @@ export class KanbanView extends ItemView {
         const header = this.containerEl.createDiv({ cls: 'clock-kanban-header' });
         header.createEl('h2', { text: 'Clock Kanban' });
 
+        // Board picker
+        const boardSelect = header.createEl('select', { cls: 'clock-kanban-board-select' });
+        this.plugin.settings.boards.forEach(board => {
+            const option = boardSelect.createEl('option', { value: board.id, text: board.name });
+            option.selected = board.id === this.board.id;
+        });
+        boardSelect.addEventListener('change', async () => {
+            await this.setBoard(boardSelect.value);
+        });
+
 
         // Center: Refresh button
         const refreshBtn = header.createEl('button', {
@@ -215,9 +150,21 @@ export class KanbanView extends ItemView {
             }
         });
 
-        // Right side: Grouped controls (Today + Filter)
+        // Right side: Grouped controls (Swimlanes + Today + Filter)
         const rightControls = header.createDiv({ cls: 'clock-kanban-header-right' });
 
+        // Swimlane grouping
+        const groupSelect = rightControls.createEl('select', { cls: 'clock-kanban-group-select' });
+        (Object.keys(SWIMLANE_LABELS) as SwimlaneGroupBy[]).forEach(key => {
+            const option = groupSelect.createEl('option', { value: key, text: SWIMLANE_LABELS[key] });
+            option.selected = key === this.plugin.settings.groupBy;
+        });
+        groupSelect.addEventListener('change', async () => {
+            this.plugin.settings.groupBy = groupSelect.value as SwimlaneGroupBy;
+            await this.plugin.saveSettings();
+            this.render();
+        });
+
         // "Today" button (to the left of the filter)
         const todayBtn = rightControls.createEl('button', {
             cls: 'clock-kanban-today' + (this.isTodayFilterActive ? ' active' : ''),
@@ -239,8 +186,7 @@ export class KanbanView extends ItemView {
         filterSelect.style.borderRadius = '4px';
         filterSelect.style.border = '1px solid var(--background-modifier-border)';
 
-        this.plugin.settings.folderFilter = this.normalizePath(this.plugin.settings.folderFilter || '/');
-        const currentPath = this.plugin.settings.folderFilter;
+        const currentPath = this.normalizePath(this.getFolderFilter() || '/');
         const currentFile = this.app.vault.getAbstractFileByPath(this.getFsPath(currentPath));
 
         let navigationFolder: TFolder;
@@ -288,7 +234,7 @@ export class KanbanView extends ItemView {
                 const childPath = this.normalizePath(child.path);
                 if (child instanceof TFolder) {
                     // Check if folder is excluded
-                    const isExcluded = this.plugin.settings.excludedFolders.some(folder => {
+                    const isExcluded = this.board.excludedFolders.some(folder => {
                         if (!folder) return false;
                         const normalizedFolder = folder.startsWith('/') ? folder : `/${folder}`;
                         return childPath === normalizedFolder || childPath.startsWith(normalizedFolder + '/');
@@ -314,232 +260,201 @@ export class KanbanView extends ItemView {
             const val = (e.target as HTMLSelectElement).value;
             if (!val) return;
             this.isTodayFilterActive = false; // Disable today filter when specific folder is selected
-            this.plugin.settings.folderFilter = this.normalizePath(val);
-            await this.plugin.saveSettings();
+            this.folderFilter = this.normalizePath(val);
+            this.app.workspace.requestSaveLayout();
             await this.loadTasks();
             this.render();
         });
 
-        // Columns container
-        const board = this.containerEl.createDiv({ cls: 'clock-kanban-board' });
+        // Filter bar
+        this.renderFilterBar(this.containerEl);
 
-        this.columns.forEach(column => {
-            this.renderColumn(board, column);
-        });
+        // Columns container
+        this.kanban.render(this.containerEl);
     }
 
-    /** Render a column */
-    renderColumn(container: HTMLElement, column: KanbanColumnConfig): void {
-        const columnEl = container.createDiv({
-            cls: 'clock-kanban-column',
-            attr: { 'data-column': column.type }
-        });
-
-        // Column header
-        const header = columnEl.createDiv({ cls: 'clock-kanban-column-header' });
-        header.style.borderTop = `3px solid ${column.color}`;
-
-        const titleEl = header.createEl('h3', { text: column.name });
-
-        // Task counter
-        const columnTasks = this.tasks.filter(t => t.column === column.type);
-        const counter = header.createSpan({
-            cls: 'clock-kanban-counter',
-            text: `(${columnTasks.length})`
-        });
-
-        // Highlight if it's the Auto-Clock column
-        if (column.name === this.plugin.settings.clockColumn) {
-            columnEl.addClass('clock-kanban-working-column');
-        }
+    /** Render the tag, priority, due date and text filter bar with presets */
+    renderFilterBar(container: HTMLElement): void {
+        const settings = this.plugin.settings;
+        const filter = settings.activeFilter;
+        const bar = container.createDiv({ cls: 'clock-kanban-filter-bar' });
 
-        // Tasks container
-        const tasksContainer = columnEl.createDiv({
-            cls: 'clock-kanban-tasks-container'
+        const update = async (render = true) => {
+            await this.plugin.saveSettings();
+            if (render) {
+                await this.loadTasks();
+                this.render();
+            }
+        };
+
+        // Free text search (re-renders the board only, to keep focus)
+        const search = bar.createEl('input', {
+            type: 'search',
+            cls: 'clock-kanban-filter-search',
+            placeholder: '🔍 Search…',
+            value: filter.text
         });
-
-        // Add tasks to this column
-        columnTasks.forEach(task => {
-            this.renderTask(tasksContainer, task);
+        search.addEventListener('input', () => {
+            filter.text = search.value;
+            this.applyTextFilter();
         });
 
-        // Drag & drop events on column
-        this.setupColumnDragEvents(columnEl, column.type);
-    }
-
-    /** Render a task */
-    renderTask(container: HTMLElement, task: KanbanTask): void {
-        const taskEl = container.createDiv({
-            cls: 'clock-kanban-task',
-            attr: { 'data-task-id': task.id, 'draggable': 'true' }
+        // Tag chips: click toggles include/exclude, × removes
+        const chips = bar.createDiv({ cls: 'clock-kanban-filter-chips' });
+        const renderChip = (tag: string, mode: 'include' | 'exclude') => {
+            const chip = chips.createSpan({
+                cls: `clock-kanban-filter-chip ${mode}`,
+                text: `${mode === 'exclude' ? '−' : '+'}${tag}`,
+                attr: { title: 'Click to switch include/exclude' }
+            });
+            chip.addEventListener('click', async () => {
+                filter.includeTags = filter.includeTags.filter(t => t !== tag);
+                filter.excludeTags = filter.excludeTags.filter(t => t !== tag);
+                if (mode === 'include') {
+                    filter.excludeTags = [...filter.excludeTags, tag];
+                } else {
+                    filter.includeTags = [...filter.includeTags, tag];
+                }
+                await update();
+            });
+            const remove = chip.createSpan({ cls: 'clock-kanban-filter-chip-remove', text: '×' });
+            remove.addEventListener('click', async (e: MouseEvent) => {
+                e.stopPropagation();
+                filter.includeTags = filter.includeTags.filter(t => t !== tag);
+                filter.excludeTags = filter.excludeTags.filter(t => t !== tag);
+                await update();
+            });
+        };
+        filter.includeTags.forEach(tag => renderChip(tag, 'include'));
+        filter.excludeTags.forEach(tag => renderChip(tag, 'exclude'));
+
+        const tagSelect = chips.createEl('select', { cls: 'clock-kanban-group-select' });
+        tagSelect.createEl('option', { value: '', text: '+ Tag…' });
+        this.getAvailableTags()
+            .filter(tag => !filter.includeTags.includes(tag) && !filter.excludeTags.includes(tag))
+            .forEach(tag => tagSelect.createEl('option', { value: tag, text: tag }));
+        tagSelect.addEventListener('change', async () => {
+            if (!tagSelect.value) return;
+            filter.includeTags = [...filter.includeTags, tagSelect.value];
+            await update();
         });
 
-        // Clock-in indicator
-        if (task.isClockedIn) {
-            taskEl.addClass('clock-kanban-task-active');
-            const indicator = taskEl.createDiv({ cls: 'clock-kanban-indicator' });
-            indicator.setText('⏱️');
-        }
-
-        // Task content
-        const content = taskEl.createDiv({ cls: 'clock-kanban-task-content' });
-
-        // Task text
-        const desc = content.createDiv({ cls: 'clock-kanban-task-desc' });
-        desc.setText(task.description);
-
-        // Metadata
-        const meta = content.createDiv({ cls: 'clock-kanban-task-meta' });
-
-        // Tags
-        if (task.tags && task.tags.length > 0) {
-            const tagsEl = meta.createDiv({ cls: 'clock-kanban-task-tags' });
-            task.tags.forEach(tag => {
-                tagsEl.createSpan({ cls: 'clock-kanban-tag', text: tag });
+        // Priority toggles
+        const priorities = bar.createDiv({ cls: 'clock-kanban-filter-priorities' });
+        const priorityLabels: Record<PriorityFilter, string> = { high: '!H', medium: '!M', low: '!L', none: '–' };
+        (Object.keys(priorityLabels) as PriorityFilter[]).forEach(priority => {
+            const active = filter.priorities.includes(priority);
+            const btn = priorities.createEl('button', {
+                cls: 'clock-kanban-today' + (active ? ' active' : ''),
+                text: priorityLabels[priority],
+                attr: { title: priority === 'none' ? 'No priority' : `${priority} priority` }
             });
-        }
-
-        // Priority
-        if (task.priority && task.priority !== 'none' as any && task.priority !== '3' as any) {
-            const priorityColors: Record<string, string> = {
-                low: '#6b7280',
-                medium: '#f59e0b',
-                high: '#ef4444'
-            };
-            const priorityEl = meta.createSpan({
-                cls: 'clock-kanban-priority',
-                text: `!${task.priority.charAt(0).toUpperCase()}`
+            btn.addEventListener('click', async () => {
+                filter.priorities = active
+                    ? filter.priorities.filter(p => p !== priority)
+                    : [...filter.priorities, priority];
+                await update();
             });
-            priorityEl.style.color = priorityColors[task.priority] || '#6b7280';
-        }
-
-        // Due date
-        if (task.dueDate) {
-            const dueEl = meta.createSpan({ cls: 'clock-kanban-due' });
-            dueEl.setText(`📅 ${task.dueDate}`);
-        }
-
-        // Drag & drop events
-        this.setupTaskDragEvents(taskEl, task);
-
-        // Double-click to open task
-        taskEl.addEventListener('dblclick', () => {
-            this.openTask(task);
         });
-    }
 
-    /** Setup drag events on a task */
-    setupTaskDragEvents(taskEl: HTMLElement, task: KanbanTask): void {
-        taskEl.addEventListener('dragstart', (e: DragEvent) => {
-            this.draggedTaskId = task.id;
-            this.draggedSourceColumn = task.column;
-            taskEl.addClass('clock-kanban-dragging');
+        // Due date range
+        const due = bar.createDiv({ cls: 'clock-kanban-filter-due' });
+        due.createSpan({ text: '📅' });
+        const dueFrom = due.createEl('input', { type: 'date', value: filter.dueFrom || '' });
+        dueFrom.addEventListener('change', async () => {
+            filter.dueFrom = dueFrom.value || undefined;
+            await update();
+        });
+        due.createSpan({ text: '→' });
+        const dueTo = due.createEl('input', { type: 'date', value: filter.dueTo || '' });
+        dueTo.addEventListener('change', async () => {
+            filter.dueTo = dueTo.value || undefined;
+            await update();
+        });
 
-            if (e.dataTransfer) {
-                e.dataTransfer.effectAllowed = 'move';
-                e.dataTransfer.setData('text/plain', task.id);
-            }
+        // Presets
+        const presetSelect = bar.createEl('select', { cls: 'clock-kanban-group-select' });
+        presetSelect.createEl('option', { value: '', text: 'Presets…' });
+        settings.filterPresets.forEach((preset, index) => {
+            presetSelect.createEl('option', { value: String(index), text: preset.name });
+        });
+        presetSelect.addEventListener('change', async () => {
+            const preset = settings.filterPresets[Number(presetSelect.value)];
+            if (!presetSelect.value || !preset) return;
+            settings.activeFilter = JSON.parse(JSON.stringify(preset.filter));
+            await update();
         });
 
-        taskEl.addEventListener('dragend', () => {
-            taskEl.removeClass('clock-kanban-dragging');
-            this.draggedTaskId = null;
-            this.draggedSourceColumn = null;
+        const saveBtn = bar.createEl('button', { cls: 'clock-kanban-today', text: '💾', attr: { title: 'Save filter as preset' } });
+        saveBtn.addEventListener('click', () => {
+            new PromptModal(this.app, 'Save filter preset', '', async (name) => {
+                const preset = { name, filter: JSON.parse(JSON.stringify(settings.activeFilter)) };
+                const existing = settings.filterPresets.findIndex(p => p.name === name);
+                if (existing !== -1) {
+                    settings.filterPresets[existing] = preset;
+                } else {
+                    settings.filterPresets.push(preset);
+                }
+                await update();
+            }).open();
+        });
 
-            // Clean up highlights
-            document.querySelectorAll('.clock-kanban-column-dragover').forEach(el => {
-                el.removeClass('clock-kanban-column-dragover');
+        if (!isFilterEmpty(filter)) {
+            const clearBtn = bar.createEl('button', { cls: 'clock-kanban-today', text: '✖', attr: { title: 'Clear filters' } });
+            clearBtn.addEventListener('click', async () => {
+                settings.activeFilter = JSON.parse(JSON.stringify(EMPTY_FILTER));
+                await update();
             });
-        });
+        }
     }
 
-    /** Setup drag events on a column */
-    setupColumnDragEvents(columnEl: HTMLElement, columnType: KanbanColumnType): void {
-        columnEl.addEventListener('dragover', (e: DragEvent) => {
-            e.preventDefault();
-            if (e.dataTransfer) {
-                e.dataTransfer.dropEffect = 'move';
-            }
-            columnEl.addClass('clock-kanban-column-dragover');
-        });
-
-        columnEl.addEventListener('dragleave', () => {
-            columnEl.removeClass('clock-kanban-column-dragover');
+    /** Tags of every task from the source, before filtering */
+    private getAvailableTags(): string[] {
+        const tags = new Set<string>();
+        this.plugin.taskIndex.getSourceTasks().forEach(task => {
+            (task.tags || []).forEach((tag: string) => tags.add(tag));
         });
+        return [...tags].sort((a, b) => a.localeCompare(b));
+    }
 
-        columnEl.addEventListener('drop', async (e: DragEvent) => {
-            e.preventDefault();
-            columnEl.removeClass('clock-kanban-column-dragover');
-
-            if (!this.draggedTaskId || !this.draggedSourceColumn) {
-                return;
-            }
+    /** Re-apply the filters to the board only (keeps focus in the filter bar) */
+    private async applyFilter(): Promise<void> {
+        await this.plugin.saveSettings();
+        await this.kanban.refresh();
+    }
 
-            // Prevent drop on same column
-            if (this.draggedSourceColumn === columnType) {
-                return;
-            }
+    /** Folder or file the view is narrowed to */
+    private getFolderFilter(): string {
+        return this.folderFilter ?? this.board.folderFilter;
+    }
 
-            // Find task
-            const task = this.tasks.find(t => t.id === this.draggedTaskId);
-            if (!task) {
-                return;
-            }
+    /** Show another board in this view */
+    async setBoard(boardId: string): Promise<void> {
+        this.boardId = boardId;
+        this.folderFilter = null;
+        this.plugin.settings.activeBoardId = boardId;
+        await this.plugin.saveSettings();
+        this.app.workspace.requestSaveLayout();
+        await this.refresh();
+    }
 
-            // Handle move
-            await this.handleTaskMove(task, this.draggedSourceColumn, columnType);
-        });
+    /** Load tasks from the configured task source */
+    async loadTasks(): Promise<void> {
+        await this.kanban.loadTasks();
     }
 
     /** Handle moving a task between columns */
     async handleTaskMove(
         task: KanbanTask,
         sourceColumn: KanbanColumnType,
-        targetColumn: KanbanColumnType
-    ): Promise<void> {
-        const settings = this.plugin.settings;
-
-        // 1. Clock-out if leaving the clock column
-        if (sourceColumn === settings.clockColumn && targetColumn !== settings.clockColumn && settings.autoClockInOut) {
-            await this.plugin.clockOut(task);
-            task.isClockedIn = false;
-            task.endTime = moment().format(settings.timeFormat);
-        }
-
-        // 2. Clock-in if entering the clock column
-        if (targetColumn === settings.clockColumn && sourceColumn !== settings.clockColumn && settings.autoClockInOut) {
-            await this.plugin.clockIn(task);
-            task.isClockedIn = true;
-            task.startTime = moment().format(settings.timeFormat);
-        }
-
-        // 3. Update task column
-        task.column = targetColumn;
-
-        // 4. Update status in source file
-        await this.plugin.updateTaskStatus(task, targetColumn);
-
-        // 5. Re-render
-        this.render();
-
-        // Notification
-        if (this.plugin.settings.debugMessages) {
-            new Notice(`Moved "${task.description.substring(0, 30)}..." to ${targetColumn}`);
-        }
-    }
-
-
-    /** Open task in its source file */
-    openTask(task: KanbanTask): void {
-        const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
-        if (file instanceof TFile) {
-            this.app.workspace.openLinkText(file.path, '', false);
-        }
+        targetColumn: KanbanColumnType,
+        targetLane: string | null = null
+    ): Promise<boolean> {
+        return this.kanban.handleTaskMove(task, sourceColumn, targetColumn, targetLane);
     }
 
     /** Refresh view */
     async refresh(): Promise<void> {
-        this.columns = this.plugin.settings.columns;
         await this.loadTasks();
         this.render();
     }
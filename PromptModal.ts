@@ -0,0 +1,53 @@
+/**
+ * Single text input modal
+ */
+import { App, Modal, Setting } from 'obsidian';
+
+/** Ask the user for a line of text */
+export class PromptModal extends Modal {
+    private title: string;
+    private value: string;
+    private onSubmit: (value: string) => void;
+
+    constructor(app: App, title: string, initialValue: string, onSubmit: (value: string) => void) {
+        super(app);
+        this.title = title;
+        this.value = initialValue;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: this.title });
+
+        new Setting(contentEl)
+            .addText(text => {
+                text.setValue(this.value)
+                    .onChange(value => { this.value = value; });
+                text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        this.submit();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private submit(): void {
+        const value = this.value.trim();
+        if (!value) return;
+        this.close();
+        this.onSubmit(value);
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * obsidian://clock-kanban URI actions
+ * Clock in/out, move tasks and open boards from launchers, Stream Deck buttons or links in notes
+ */
+import { Notice, ObsidianProtocolData } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { BoardConfig, KanbanTask } from './types';
+
+/** Protocol action name: obsidian://clock-kanban?cmd=... */
+export const PROTOCOL_ACTION = 'clock-kanban';
+
+/** URI commands ("action" is taken by Obsidian for the protocol action name) */
+export type UriCommand = 'clock-in' | 'clock-out' | 'move' | 'open-board';
+
+/** Build a URI for a task command */
+export function buildTaskUri(cmd: UriCommand, taskId: string, extra: Record<string, string> = {}): string {
+    const query = Object.keys(extra).map(key => `&${key}=${encodeURIComponent(extra[key])}`).join('');
+    return `obsidian://${PROTOCOL_ACTION}?cmd=${cmd}&id=${encodeURIComponent(taskId)}${query}`;
+}
+
+/** Runs the commands of obsidian://clock-kanban URIs */
+export class ProtocolHandler {
+    plugin: ClockKanbanPlugin;
+
+    constructor(plugin: ClockKanbanPlugin) {
+        this.plugin = plugin;
+    }
+
+    register(): void {
+        this.plugin.registerObsidianProtocolHandler(PROTOCOL_ACTION, params => this.handle(params));
+    }
+
+    /**
+     * Parameters: cmd, board (name or ID), tasks by id or by file + line (1-based),
+     * column for move, folder for open-board
+     */
+    async handle(params: ObsidianProtocolData): Promise<void> {
+        const cmd = params.cmd as UriCommand;
+        const board = this.findBoard(params.board);
+        if (params.board && !board) {
+            new Notice(`Clock Kanban: board "${params.board}" not found`);
+            return;
+        }
+
+        switch (cmd) {
+            case 'open-board':
+                await this.plugin.openBoard((board || this.plugin.getBoard()).id, params.folder);
+                return;
+            case 'clock-in':
+            case 'clock-out':
+            case 'move':
+                await this.runTaskCommand(cmd, params, board);
+                return;
+            default:
+                new Notice(`Clock Kanban: unknown URI command "${params.cmd || ''}"`);
+        }
+    }
+
+    private async runTaskCommand(cmd: UriCommand, params: ObsidianProtocolData, board: BoardConfig | null): Promise<void> {
+        const found = await this.findTask(params, board);
+        if (!found) {
+            new Notice('Clock Kanban: task not found (check id, or file and line)');
+            return;
+        }
+
+        const { api } = this.plugin;
+        const { task, board: taskBoard } = found;
+        const label = task.description.length > 40 ? `${task.description.substring(0, 40)}…` : task.description;
+
+        if (cmd === 'move') {
+            const column = taskBoard.columns.find(col => col.id === params.column || col.name === params.column);
+            if (!column) {
+                new Notice(`Clock Kanban: column "${params.column || ''}" not found on ${taskBoard.name}`);
+                return;
+            }
+            if (await api.moveTask(task.id, column.id, taskBoard.id)) {
+                new Notice(`Moved "${label}" to ${column.name}`);
+            }
+            return;
+        }
+
+        const result = cmd === 'clock-in' ? await api.clockIn(task.id, taskBoard.id) : await api.clockOut(task.id, taskBoard.id);
+        new Notice(result.success
+            ? `${cmd === 'clock-in' ? '⏱️ Clocked in' : '⏹️ Clocked out'} "${label}"`
+            : `Clock Kanban: ${result.error}`);
+    }
+
+    /** Board by name or ID, null when not given or unknown */
+    private findBoard(nameOrId?: string): BoardConfig | null {
+        if (!nameOrId) return null;
+        return this.plugin.settings.boards.find(b => b.id === nameOrId)
+            || this.plugin.settings.boards.find(b => b.name.toLowerCase() === nameOrId.toLowerCase())
+            || null;
+    }
+
+    /** Task addressed by id or file + line, on the given board or the first board showing it */
+    private async findTask(params: ObsidianProtocolData, board: BoardConfig | null): Promise<{ task: KanbanTask; board: BoardConfig } | null> {
+        const file = params.file ? params.file.replace(/^\/+/, '') : '';
+        const line = Number(params.line) - 1;
+        const matches = (task: KanbanTask) => (params.id
+            ? task.id === params.id
+            : !!file && (task.sourcePath === file || task.sourcePath === `${file}.md`) && task.lineNumber === line);
+
+        const active = this.plugin.getBoard();
+        const boards = board ? [board] : [active, ...this.plugin.settings.boards.filter(b => b !== active)];
+        for (const candidate of boards) {
+            const task = (await this.plugin.api.getTasks(candidate.id)).find(matches);
+            if (task) return { task, board: candidate };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,249 @@
+/**
+ * Time tracking statistics view
+ * Aggregates the closed [clock::start--end] entries found in the vault
+ */
+import { ItemView, WorkspaceLeaf, TFile, moment, Notice } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { TaskClockRecord } from './types';
+import { CLOCK_TIMESTAMP_FORMAT, formatDuration, getIntervalDuration } from './clock';
+
+/** Unique view identifier */
+export const VIEW_TYPE_CLOCK_STATS = 'clock-kanban-stats-view';
+
+/** Available groupings for the statistics table */
+export type StatsGroupBy = 'task' | 'tag' | 'file' | 'day' | 'week' | 'month';
+
+const GROUP_LABELS: Record<StatsGroupBy, string> = {
+    task: 'Task',
+    tag: 'Tag',
+    file: 'Source file',
+    day: 'Day',
+    week: 'Week',
+    month: 'Month',
+};
+
+/** Aggregated row of the statistics table */
+interface StatsRow {
+    key: string;
+    total: number;
+    entries: number;
+    /** Task row target, used to open the source file */
+    record?: TaskClockRecord;
+}
+
+/** Statistics view */
+export class StatsView extends ItemView {
+    plugin: ClockKanbanPlugin;
+    records: TaskClockRecord[] = [];
+    private groupBy: StatsGroupBy = 'task';
+    private fromDate: string = moment().startOf('isoWeek').format('YYYY-MM-DD');
+    private toDate: string = moment().format('YYYY-MM-DD');
+
+    constructor(leaf: WorkspaceLeaf, plugin: ClockKanbanPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CLOCK_STATS;
+    }
+
+    getDisplayText(): string {
+        return 'Clock Statistics';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen(): Promise<void> {
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /** Read tasks with clock entries from the task index (excluding folders of the active board) */
+    async loadRecords(): Promise<void> {
+        const excludedFolders = this.plugin.getBoard().excludedFolders
+            .filter(folder => !!folder)
+            .map(folder => (folder.startsWith('/') ? folder.substring(1) : folder));
+
+        await this.plugin.taskIndex.ensureBuilt();
+        this.records = this.plugin.taskIndex.getClockRecords()
+            .filter(record => !excludedFolders.some(folder => record.sourcePath.startsWith(folder)));
+    }
+
+    /** Aggregate closed intervals starting inside the selected range */
+    computeRows(groupBy: StatsGroupBy = this.groupBy): StatsRow[] {
+        const from = moment(this.fromDate, 'YYYY-MM-DD').startOf('day');
+        const to = moment(this.toDate, 'YYYY-MM-DD').endOf('day');
+        const rows = new Map<string, StatsRow>();
+
+        const addTo = (key: string, duration: number, record?: TaskClockRecord) => {
+            const row = rows.get(key) || { key, total: 0, entries: 0, record };
+            row.total += duration;
+            row.entries++;
+            rows.set(key, row);
+        };
+
+        for (const record of this.records) {
+            for (const interval of record.intervals) {
+                if (!interval.end) continue;
+
+                const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT);
+                if (!start.isValid() || start.isBefore(from) || start.isAfter(to)) continue;
+
+                const duration = getIntervalDuration(interval);
+
+                switch (groupBy) {
+                    case 'task':
+                        addTo(`${record.sourcePath}:${record.lineNumber}`, duration, record);
+                        break;
+                    case 'tag':
+                        if (record.tags.length === 0) {
+                            addTo('(no tag)', duration);
+                        }
+                        record.tags.forEach(tag => addTo(tag, duration));
+                        break;
+                    case 'file':
+                        addTo(record.sourcePath, duration);
+                        break;
+                    case 'day':
+                        addTo(start.format('YYYY-MM-DD'), duration);
+                        break;
+                    case 'week':
+                        addTo(start.format('GGGG-[W]WW'), duration);
+                        break;
+                    case 'month':
+                        addTo(start.format('YYYY-MM'), duration);
+                        break;
+                }
+            }
+        }
+
+        const result = [...rows.values()];
+        if (groupBy === 'day' || groupBy === 'week' || groupBy === 'month') {
+            return result.sort((a, b) => a.key.localeCompare(b.key));
+        }
+        return result.sort((a, b) => b.total - a.total);
+    }
+
+    /** Main statistics render */
+    render(): void {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('clock-kanban-stats');
+
+        // Header with range and grouping controls
+        const header = container.createDiv({ cls: 'clock-kanban-header' });
+        header.createEl('h2', { text: 'Clock Statistics' });
+
+        const controls = header.createDiv({ cls: 'clock-kanban-header-right' });
+
+        const presets: { label: string; from: () => moment.Moment; to: () => moment.Moment }[] = [
+            { label: 'This week', from: () => moment().startOf('isoWeek'), to: () => moment() },
+            { label: 'This month', from: () => moment().startOf('month'), to: () => moment() },
+            { label: 'Last 30 days', from: () => moment().subtract(29, 'days'), to: () => moment() },
+        ];
+        const presetSelect = controls.createEl('select', { cls: 'clock-kanban-stats-select' });
+        presetSelect.createEl('option', { value: '', text: 'Range…' });
+        presets.forEach((preset, index) => {
+            presetSelect.createEl('option', { value: String(index), text: preset.label });
+        });
+        presetSelect.addEventListener('change', () => {
+            const preset = presets[Number(presetSelect.value)];
+            if (!preset) return;
+            this.fromDate = preset.from().format('YYYY-MM-DD');
+            this.toDate = preset.to().format('YYYY-MM-DD');
+            this.render();
+        });
+
+        const fromInput = controls.createEl('input', { type: 'date', value: this.fromDate });
+        fromInput.addEventListener('change', () => {
+            if (!fromInput.value) return;
+            this.fromDate = fromInput.value;
+            this.render();
+        });
+        controls.createSpan({ text: '→' });
+        const toInput = controls.createEl('input', { type: 'date', value: this.toDate });
+        toInput.addEventListener('change', () => {
+            if (!toInput.value) return;
+            this.toDate = toInput.value;
+            this.render();
+        });
+
+        const groupSelect = controls.createEl('select', { cls: 'clock-kanban-stats-select' });
+        (Object.keys(GROUP_LABELS) as StatsGroupBy[]).forEach(key => {
+            const option = groupSelect.createEl('option', { value: key, text: `By ${GROUP_LABELS[key].toLowerCase()}` });
+            option.selected = key === this.groupBy;
+        });
+        groupSelect.addEventListener('change', () => {
+            this.groupBy = groupSelect.value as StatsGroupBy;
+            this.render();
+        });
+
+        const refreshBtn = controls.createEl('button', {
+            cls: 'clock-kanban-refresh',
+            text: '🔄 Refresh'
+        });
+        refreshBtn.addEventListener('click', async () => {
+            await this.refresh();
+            if (this.plugin.settings.debugMessages) {
+                new Notice('Statistics refreshed');
+            }
+        });
+
+        // Results table
+        const rows = this.computeRows();
+        if (rows.length === 0) {
+            container.createDiv({ cls: 'clock-kanban-stats-empty', text: 'No tracked time in this range.' });
+            return;
+        }
+
+        const table = container.createEl('table', { cls: 'clock-kanban-stats-table' });
+        const headRow = table.createEl('thead').createEl('tr');
+        headRow.createEl('th', { text: GROUP_LABELS[this.groupBy] });
+        headRow.createEl('th', { text: 'Entries' });
+        headRow.createEl('th', { text: 'Total' });
+
+        const body = table.createEl('tbody');
+        rows.forEach(row => {
+            const tr = body.createEl('tr');
+            const keyCell = tr.createEl('td');
+            if (row.record) {
+                const record = row.record;
+                const link = keyCell.createEl('a', { text: record.description, cls: 'clock-kanban-stats-link' });
+                link.addEventListener('click', () => this.openRecord(record));
+                keyCell.createDiv({ cls: 'clock-kanban-stats-path', text: record.sourcePath });
+            } else {
+                keyCell.setText(row.key);
+            }
+            tr.createEl('td', { text: String(row.entries) });
+            tr.createEl('td', { text: formatDuration(row.total) });
+        });
+
+        // Grand total (tags may count an interval several times, so sum the raw intervals)
+        const totalRows = this.groupBy === 'tag' ? this.computeRows('task') : rows;
+        const grandTotal = totalRows.reduce((sum, row) => sum + row.total, 0);
+        const footRow = table.createEl('tfoot').createEl('tr');
+        footRow.createEl('td', { text: 'Total' });
+        footRow.createEl('td');
+        footRow.createEl('td', { text: formatDuration(grandTotal) });
+    }
+
+    /** Open the task source file */
+    openRecord(record: TaskClockRecord): void {
+        const file = this.app.vault.getAbstractFileByPath(record.sourcePath);
+        if (file instanceof TFile) {
+            this.app.workspace.openLinkText(file.path, '', false);
+        }
+    }
+
+    /** Refresh view */
+    async refresh(): Promise<void> {
+        await this.loadRecords();
+        this.render();
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * In-memory task and clock index
+ * Kept up to date from vault, metadata cache and Tasks plugin events
+ */
+import { Events, Plugin, TAbstractFile, TFile } from 'obsidian';
+import type ClockKanbanPlugin from './main';
+import type { ClockInterval, RawTask, SourceTask, TaskClockRecord } from './types';
+import type { AppWithRegistries } from './clockBackend';
+import { scanClockBlocks } from './clock';
+import { compileTaskRegex, scanFileTasks } from './TaskScanner';
+
+/** Event fired with the changed file paths (null when everything changed) */
+export const INDEX_CHANGED_EVENT = 'changed';
+
+/** Indexed content of a single file */
+interface FileIndex {
+    /** Tasks found with the task regex */
+    tasks: RawTask[];
+    /** Clock entries keyed by the line they are listed under */
+    clocks: Map<number, ClockInterval[]>;
+}
+
+/** Tasks plugin instance (the part of its API used here) */
+interface TasksPlugin extends Plugin {
+    getTasks?(): SourceTask[];
+}
+
+/** Running clock with the task it belongs to */
+export interface RunningClock {
+    task: RawTask;
+    clock: ClockInterval;
+}
+
+/** Task and clock index */
+export class TaskIndex extends Events {
+    plugin: ClockKanbanPlugin;
+    private files: Map<string, FileIndex> = new Map();
+    private buildPromise: Promise<void> | null = null;
+    /** Edits made while builds run, replayed on each new map (null: file removed) */
+    private pendingEdits: Map<string, FileIndex | null>[] = [];
+    private taskRegex: RegExp;
+
+    constructor(plugin: ClockKanbanPlugin) {
+        super();
+        this.plugin = plugin;
+        this.taskRegex = compileTaskRegex(plugin.settings.taskRegex);
+    }
+
+    /**
+     * Listen to vault, metadata cache and Tasks plugin events
+     * The metadata cache fires 'changed' with the new content after every markdown modify,
+     * so only the edited file is re-parsed.
+     */
+    register(): void {
+        const { app } = this.plugin;
+
+        this.plugin.registerEvent(
+            app.metadataCache.on('changed', (file: TFile, data: string) => {
+                this.indexContent(file.path, data);
+                this.trigger(INDEX_CHANGED_EVENT, [file.path]);
+            })
+        );
+
+        this.plugin.registerEvent(
+            app.vault.on('delete', (file: TAbstractFile) => {
+                const indexed = this.files.has(file.path);
+                this.setEntry(file.path, null);
+                if (indexed) {
+                    this.trigger(INDEX_CHANGED_EVENT, [file.path]);
+                }
+            })
+        );
+
+        this.plugin.registerEvent(
+            app.vault.on('rename', async (file: TAbstractFile, oldPath: string) => {
+                this.setEntry(oldPath, null);
+                if (file instanceof TFile && file.extension === 'md') {
+                    const entry = await this.readFile(file);
+                    if (entry) this.setEntry(file.path, entry);
+                }
+                this.trigger(INDEX_CHANGED_EVENT, [oldPath, file.path]);
+            })
+        );
+
+        // Tasks plugin rebuilt its cache: everything it returns may have changed
+        const workspaceEvents: Events = app.workspace;
+        this.plugin.registerEvent(
+            workspaceEvents.on('obsidian-tasks-plugin:cache-update', () => {
+                if (this.usesTasksPlugin()) {
+                    this.trigger(INDEX_CHANGED_EVENT, null);
+                }
+            })
+        );
+    }
+
+    /** Build the index once; later calls wait for the same build */
+    ensureBuilt(): Promise<void> {
+        if (!this.buildPromise) {
+            this.buildPromise = this.build();
+        }
+        return this.buildPromise;
+    }
+
+    /** Rebuild from scratch (e.g. after the task regex changed) */
+    async rebuild(): Promise<void> {
+        this.taskRegex = compileTaskRegex(this.plugin.settings.taskRegex);
+        this.buildPromise = this.build();
+        await this.buildPromise;
+        this.trigger(INDEX_CHANGED_EVENT, null);
+    }
+
+    /**
+     * Fill a fresh map so readers never see a half-built index
+     * Edits received meanwhile go to the current map and are replayed on the new one before the swap.
+     */
+    private async build(): Promise<void> {
+        const files = new Map<string, FileIndex>();
+        const edits = new Map<string, FileIndex | null>();
+        this.pendingEdits.push(edits);
+        try {
+            for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+                const entry = await this.readFile(file);
+                if (entry) files.set(file.path, entry);
+            }
+            edits.forEach((entry, path) => {
+                if (entry) files.set(path, entry);
+                else files.delete(path);
+            });
+            this.files = files;
+        } finally {
+            this.pendingEdits.splice(this.pendingEdits.indexOf(edits), 1);
+        }
+    }
+
+    /** Set or remove (null) the entry of a file, also for the builds in progress */
+    private setEntry(path: string, entry: FileIndex | null): void {
+        if (entry) this.files.set(path, entry);
+        else this.files.delete(path);
+        this.pendingEdits.forEach(edits => edits.set(path, entry));
+    }
+
+    private async readFile(file: TFile): Promise<FileIndex | null> {
+        try {
+            const content = await this.plugin.app.vault.cachedRead(file);
+            return this.parseContent(file.path, content);
+        } catch (error) {
+            console.error(`Error indexing ${file.path}:`, error);
+            return null;
+        }
+    }
+
+    private parseContent(path: string, content: string): FileIndex {
+        const lines = content.split('\n');
+        const clocks = scanClockBlocks(lines);
+        return {
+            tasks: scanFileTasks(lines, path, this.taskRegex, clocks),
+            clocks,
+        };
+    }
+
+    /** Re-parse a single file */
+    indexContent(path: string, content: string): void {
+        this.setEntry(path, this.parseContent(path, content));
+    }
+
+    /** Tasks plugin instance, if installed and enabled */
+    getTasksPlugin(): TasksPlugin | undefined {
+        const app = this.plugin.app as AppWithRegistries;
+        return app.plugins?.plugins['obsidian-tasks-plugin'] as TasksPlugin | undefined;
+    }
+
+    /** Whether tasks come from the Tasks plugin with the current settings */
+    usesTasksPlugin(): boolean {
+        const source = this.plugin.settings.taskSource;
+        return source === 'tasks-plugin' || (source === 'auto' && !!this.getTasksPlugin());
+    }
+
+    /** Tasks from the configured source */
+    getSourceTasks(): SourceTask[] {
+        if (this.usesTasksPlugin()) {
+            return this.getTasksPlugin()?.getTasks?.() || [];
+        }
+        return this.getVaultTasks();
+    }
+
+    /** Tasks found by the built-in scanner */
+    getVaultTasks(): RawTask[] {
+        const tasks: RawTask[] = [];
+        this.files.forEach(entry => tasks.push(...entry.tasks));
+        return tasks;
+    }
+
+    /** Clock entries listed below a given line */
+    getClocks(path: string, lineNumber: number): ClockInterval[] {
+        return this.files.get(path)?.clocks.get(lineNumber) || [];
+    }
+
+    /** Tasks that have clock entries */
+    getClockRecords(): TaskClockRecord[] {
+        return this.getVaultTasks()
+            .filter(task => task.clocks.length > 0)
+            .map(task => ({
+                description: task.description,
+                sourcePath: task.path,
+                lineNumber: task.lineNumber,
+                blockId: task.blockId,
+                tags: task.tags,
+                intervals: task.clocks,
+            }));
+    }
+
+    /** Tasks with an open clock entry */
+    getRunningClocks(): RunningClock[] {
+        const running: RunningClock[] = [];
+        this.files.forEach(entry => {
+            entry.tasks.forEach(task => {
+                const clock = task.clocks.find(interval => !interval.end);
+                if (clock) running.push({ task, clock });
+            });
+        });
+        return running;
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Built-in vault task scanner
+ * Reads checkbox tasks from markdown files without the Tasks plugin
+ */
+import type { ClockInterval, RawTask, SourceDate } from './types';
+import { extractTags, scanClockBlocks } from './clock';
+import { readBlockId, readTaskId, stripTaskIds } from './taskId';
+
+/** Tasks plugin priority emojis */
+const PRIORITY_EMOJIS: Record<string, 'low' | 'medium' | 'high'> = {
+    '🔺': 'high',
+    '⏫': 'high',
+    '🔼': 'medium',
+    '🔽': 'low',
+    '⏬': 'low',
+};
+
+/** Due date field (Tasks emoji format) */
+const DUE_DATE_REGEX = /(?:📅|📆|🗓️?)\s*(\d{4}-\d{2}-\d{2})/u;
+
+/** Done date field (Tasks emoji format) */
+const DONE_DATE_REGEX = /✅\s*(\d{4}-\d{2}-\d{2})/u;
+
+/** Trailing Tasks fields removed from the description */
+const TRAILING_FIELD_REGEX = /\s*(?:(?:📅|📆|🗓️?|✅|❌|⏳|🛫|➕)\s*\d{4}-\d{2}-\d{2}|🔺|⏫|🔼|🔽|⏬)\s*$/u;
+
+/** Tasks plugin priority values ('0' highest … '5' lowest, '3' none) */
+const TASKS_PLUGIN_PRIORITIES: Record<string, 'low' | 'medium' | 'high'> = {
+    '0': 'high',
+    '1': 'high',
+    '2': 'medium',
+    '4': 'low',
+    '5': 'low',
+};
+
+/** Normalize a source priority (scanner or Tasks plugin) */
+export function normalizePriority(value: unknown): 'low' | 'medium' | 'high' | undefined {
+    if (value === 'low' || value === 'medium' || value === 'high') return value;
+    return TASKS_PLUGIN_PRIORITIES[String(value)];
+}
+
+/** Normalize a source date (string or Tasks plugin moment) to YYYY-MM-DD */
+export function normalizeDate(value: SourceDate | undefined): string | undefined {
+    if (!value) return undefined;
+    if (typeof value === 'string') return value;
+    if (typeof value.format === 'function') return value.format('YYYY-MM-DD');
+    return undefined;
+}
+
+/** Compile the task regex setting, falling back to plain checkboxes when invalid */
+export function compileTaskRegex(pattern: string): RegExp {
+    try {
+        return new RegExp(pattern);
+    } catch (error) {
+        console.warn(`Invalid task regex "${pattern}", using default checkbox pattern`, error);
+        return /- \[([^\t\n\r])\]/;
+    }
+}
+
+/** Parse a single line into a task, or null if it is not a task */
+export function parseTaskLine(
+    line: string,
+    regex: RegExp,
+    path: string,
+    lineNumber: number,
+    clocks: ClockInterval[] = []
+): RawTask | null {
+    const match = regex.exec(line);
+    if (!match) return null;
+
+    // First capture group is the status symbol
+    const symbol = match[1] ?? ' ';
+    const text = line.substring(match.index + match[0].length).trim();
+
+    let priority: RawTask['priority'];
+    for (const emoji of Object.keys(PRIORITY_EMOJIS)) {
+        if (text.includes(emoji)) {
+            priority = PRIORITY_EMOJIS[emoji];
+            break;
+        }
+    }
+
+    const dueMatch = DUE_DATE_REGEX.exec(text);
+    const doneMatch = DONE_DATE_REGEX.exec(text);
+
+    let description = stripTaskIds(text);
+    while (TRAILING_FIELD_REGEX.test(description)) {
+        description = description.replace(TRAILING_FIELD_REGEX, '');
+    }
+
+    return {
+        id: readTaskId(text),
+        blockId: readBlockId(text),
+        description: description.trim(),
+        status: { symbol },
+        path,
+        lineNumber,
+        tags: extractTags(text),
+        priority,
+        dueDate: dueMatch ? dueMatch[1] : undefined,
+        doneDate: doneMatch ? doneMatch[1] : undefined,
+        clocks,
+    };
+}
+
+/** Scan file lines for tasks and their clock entries */
+export function scanFileTasks(
+    lines: string[],
+    path: string,
+    regex: RegExp,
+    clockBlocks: Map<number, ClockInterval[]> = scanClockBlocks(lines)
+): RawTask[] {
+    const tasks: RawTask[] = [];
+
+    lines.forEach((line, lineNumber) => {
+        const task = parseTaskLine(line, regex, path, lineNumber, clockBlocks.get(lineNumber) || []);
+        if (task) tasks.push(task);
+    });
+
+    return tasks;
+}
@@ -0,0 +1,33 @@
+/**
+ * Week picker modal
+ */
+import { App, FuzzySuggestModal, moment } from 'obsidian';
+import { getWeekLabel } from './timesheet';
+
+/** Number of past weeks offered */
+const WEEK_COUNT = 12;
+
+/** Pick an ISO week, current week first */
+export class WeekSuggestModal extends FuzzySuggestModal<moment.Moment> {
+    private onChoose: (weekStart: moment.Moment) => void;
+
+    constructor(app: App, onChoose: (weekStart: moment.Moment) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Timesheet week…');
+    }
+
+    getItems(): moment.Moment[] {
+        const current = moment().startOf('isoWeek');
+        return Array.from({ length: WEEK_COUNT }, (_, index) => moment(current).subtract(index, 'weeks'));
+    }
+
+    getItemText(weekStart: moment.Moment): string {
+        const weekEnd = moment(weekStart).endOf('isoWeek');
+        return `${getWeekLabel(weekStart)} (${weekStart.format('MMM D')} – ${weekEnd.format('MMM D')})`;
+    }
+
+    onChooseItem(weekStart: moment.Moment): void {
+        this.onChoose(weekStart);
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * Clock entry helpers
+ * Reads back the [clock::start--end] lines written below tasks
+ */
+import { moment } from 'obsidian';
+import type { ClockInterval } from './types';
+
+/** Timestamp format used inside [clock::...] entries */
+export const CLOCK_TIMESTAMP_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+/** A line made only of clock entries */
+export const CLOCK_LINE_REGEX = /^\s*(\[clock::[^\]]+\]\s*)+$/;
+
+/** A clock entry without end timestamp */
+export const OPEN_CLOCK_REGEX = /\[clock::((?:(?!\]|--).)+)\]/;
+
+/** Any clock entry, capturing its content */
+const CLOCK_ENTRY_REGEX = /\[clock::([^\]]+)\]/g;
+
+/** Tag inside task text */
+const TAG_REGEX = /(?:^|\s)(#[^\s#]+)/g;
+
+/** Parse every clock entry found on a line */
+export function parseClockEntries(line: string): ClockInterval[] {
+    const intervals: ClockInterval[] = [];
+    const regex = new RegExp(CLOCK_ENTRY_REGEX);
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(line)) !== null) {
+        const [start, end] = match[1].split('--');
+        intervals.push(end ? { start: start.trim(), end: end.trim() } : { start: start.trim() });
+    }
+
+    return intervals;
+}
+
+/** Collect the clock entries listed directly below a task line */
+export function readTaskClocks(lines: string[], taskLine: number): ClockInterval[] {
+    const intervals: ClockInterval[] = [];
+    let searchIndex = taskLine + 1;
+
+    while (searchIndex < lines.length && CLOCK_LINE_REGEX.test(lines[searchIndex])) {
+        intervals.push(...parseClockEntries(lines[searchIndex]));
+        searchIndex++;
+    }
+
+    return intervals;
+}
+
+/** Extract tags from task text */
+export function extractTags(text: string): string[] {
+    const tags: string[] = [];
+    const regex = new RegExp(TAG_REGEX);
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+        tags.push(match[1]);
+    }
+
+    return tags;
+}
+
+/** Map every line followed by clock entries to those entries */
+export function scanClockBlocks(lines: string[]): Map<number, ClockInterval[]> {
+    const blocks = new Map<number, ClockInterval[]>();
+
+    lines.forEach((line, lineNumber) => {
+        if (CLOCK_LINE_REGEX.test(line)) return;
+        if (lineNumber + 1 >= lines.length || !CLOCK_LINE_REGEX.test(lines[lineNumber + 1])) return;
+        blocks.set(lineNumber, readTaskClocks(lines, lineNumber));
+    });
+
+    return blocks;
+}
+
+/** Duration of an interval in milliseconds (open intervals run until now) */
+export function getIntervalDuration(interval: ClockInterval, now: number = Date.now()): number {
+    const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT);
+    const end = interval.end ? moment(interval.end, CLOCK_TIMESTAMP_FORMAT) : moment(now);
+    if (!start.isValid() || !end.isValid()) return 0;
+    return Math.max(0, end.diff(start));
+}
+
+/** Format a duration as "2h 05m" (or "2:05:09" with seconds) */
+export function formatDuration(ms: number, withSeconds = false): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+    if (withSeconds) {
+        return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+    }
+    return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${minutes}m`;
+}
+
+/** Write an interval as a [clock::...] entry */
+export function formatClockEntry(interval: ClockInterval): string {
+    return interval.end ? `[clock::${interval.start}--${interval.end}]` : `[clock::${interval.start}]`;
+}
+
+/**
+ * Check edited intervals, returning an error message or null when valid
+ * Intervals must be sorted by start
+ */
+export function validateIntervals(intervals: ClockInterval[], now: number = Date.now()): string | null {
+    for (let i = 0; i < intervals.length; i++) {
+        const interval = intervals[i];
+        const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT, true);
+        if (!start.isValid()) return `Interval ${i + 1}: invalid start time`;
+
+        if (interval.end) {
+            const end = moment(interval.end, CLOCK_TIMESTAMP_FORMAT, true);
+            if (!end.isValid()) return `Interval ${i + 1}: invalid end time`;
+            if (end.isBefore(start)) return `Interval ${i + 1}: ends before it starts`;
+        } else if (i < intervals.length - 1) {
+            return `Interval ${i + 1}: only the last interval can be running`;
+        } else if (start.valueOf() > now) {
+            return `Interval ${i + 1}: running interval starts in the future`;
+        }
+
+        const next = intervals[i + 1];
+        if (next && interval.end && interval.end > next.start) {
+            return `Intervals ${i + 1} and ${i + 2} overlap`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Clock backends
+ * Where clock-in/clock-out are recorded: [clock::] property, Day Planner timeblocks or Day Planner commands
+ */
+import type { App, Plugin } from 'obsidian';
+
+/** Selectable clock backends */
+export type ClockBackendType = 'property' | 'daily-note' | 'day-planner-commands';
+
+/** Backend names shown in the settings */
+export const CLOCK_BACKEND_LABELS: Record<ClockBackendType, string> = {
+    'property': '[clock::] property below the task',
+    'daily-note': 'Day Planner timeblocks in the daily note only',
+    'day-planner-commands': 'Day Planner clock-in/clock-out commands',
+};
+
+/** Command registry of the app (not part of the public API) */
+export interface AppCommandRegistry {
+    commands: Record<string, unknown>;
+    executeCommandById(id: string): boolean;
+    removeCommand(id: string): void;
+}
+
+/** App with the command and community plugin registries */
+export interface AppWithRegistries extends App {
+    commands?: AppCommandRegistry;
+    plugins?: { plugins: Record<string, Plugin | undefined> };
+}
+
+/** Day Planner plugin ID */
+const DAY_PLANNER_ID = 'obsidian-day-planner';
+
+/** Day Planner commands, run with the cursor on the task line */
+export const DAY_PLANNER_COMMANDS: Record<'start' | 'end', string> = {
+    start: `${DAY_PLANNER_ID}:clock-in`,
+    end: `${DAY_PLANNER_ID}:clock-out`,
+};
+
+/** Day Planner plugin instance, if installed and enabled */
+export function getDayPlanner(app: App): Plugin | undefined {
+    return (app as AppWithRegistries).plugins?.plugins[DAY_PLANNER_ID];
+}
+
+/** Whether the installed Day Planner version has clock commands */
+export function hasDayPlannerCommands(app: App): boolean {
+    const commands = (app as AppWithRegistries).commands?.commands || {};
+    return !!getDayPlanner(app) && !!commands[DAY_PLANNER_COMMANDS.start] && !!commands[DAY_PLANNER_COMMANDS.end];
+}
+
+/** Backend to use for the selected setting, falling back to the property when Day Planner commands are missing */
+export function resolveClockBackend(app: App, selected: ClockBackendType): ClockBackendType {
+    if (selected === 'day-planner-commands' && !hasDayPlannerCommands(app)) {
+        return 'property';
+    }
+    return selected;
+}
@@ -0,0 +1,71 @@
+/**
+ * Column automations
+ * Rules run when a card enters or leaves a column, in the same file edit as the status change
+ */
+import { moment } from 'obsidian';
+import type { BoardConfig, ColumnRule, ColumnRuleAction } from './types';
+import { hasTag, replaceTag, setDateField } from './taskLine';
+
+/** Rule action names shown in the settings */
+export const RULE_ACTION_LABELS: Record<ColumnRuleAction, string> = {
+    'add-done-date': 'Add done date (✅)',
+    'add-cancelled-date': 'Add cancelled date (❌)',
+    'remove-done-date': 'Remove done/cancelled date',
+    'remove-due-date': 'Remove due date (📅)',
+    'add-tag': 'Add tag',
+    'remove-tag': 'Remove tag',
+    'append-to-note': 'Append to log note',
+};
+
+/** Placeholder of the rule value, for actions that need one */
+export const RULE_VALUE_PLACEHOLDERS: Partial<Record<ColumnRuleAction, string>> = {
+    'add-tag': '#tag',
+    'remove-tag': '#tag',
+    'append-to-note': 'Logs/Board moves.md',
+};
+
+/** Rules of a move: exit rules of the source column, then entry rules of the target column */
+export function getTransitionRules(board: BoardConfig, source: string | undefined, target: string): ColumnRule[] {
+    if (source === target) return [];
+    const exitRules = board.columns.find(c => c.id === source)?.rules || [];
+    const enterRules = board.columns.find(c => c.id === target)?.rules || [];
+    return [
+        ...exitRules.filter(rule => rule.trigger === 'exit'),
+        ...enterRules.filter(rule => rule.trigger === 'enter'),
+    ];
+}
+
+/** Apply the task line actions of the rules (log notes are written by the plugin) */
+export function applyLineRules(line: string, rules: ColumnRule[], date: string): string {
+    return rules.reduce((current, rule) => {
+        const tag = normalizeTag(rule.value);
+        switch (rule.action) {
+            case 'add-done-date':
+                return setDateField(current, 'done', date);
+            case 'add-cancelled-date':
+                return setDateField(current, 'cancelled', date);
+            case 'remove-done-date':
+                return setDateField(setDateField(current, 'done'), 'cancelled');
+            case 'remove-due-date':
+                return setDateField(current, 'due');
+            case 'add-tag':
+                return tag && !hasTag(current, tag) ? replaceTag(current, undefined, tag) : current;
+            case 'remove-tag':
+                return tag ? replaceTag(current, tag, '') : current;
+            default:
+                return current;
+        }
+    }, line);
+}
+
+/** Log note line of a move: "- 2026-10-19 14:05 [[Task]]: Working → Done" */
+export function formatMoveLogLine(link: string, from: string, to: string, timeFormat: string): string {
+    const now = moment();
+    return `- ${now.format('YYYY-MM-DD')} ${now.format(timeFormat)} ${link}: ${from || '–'} → ${to}`;
+}
+
+/** Tag with its leading # */
+function normalizeTag(value?: string): string {
+    const tag = (value || '').trim();
+    return tag && !tag.startsWith('#') ? `#${tag}` : tag;
+}
@@ -0,0 +1,153 @@
+/**
+ * Daily note clock log
+ * Writes one line per clock interval in the daily note of the day it started
+ */
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { CLOCK_TIMESTAMP_FORMAT } from './clock';
+
+/** How clock intervals are written in the daily note */
+export type DailyLogStyle = 'off' | 'list' | 'timeblock';
+
+/** Clock interval to log, end missing while running */
+export interface DailyLogEntry {
+    start: string;
+    end?: string;
+    /** Link to the task, e.g. [[Project note#^ck-xxxx|Task]] */
+    link: string;
+}
+
+/** Daily Notes core plugin options */
+interface DailyNoteOptions {
+    folder?: string;
+    format?: string;
+    template?: string;
+}
+
+/** Daily Notes core plugin, as registered in the app (not part of the public API) */
+interface DailyNotesPlugin {
+    enabled: boolean;
+    instance?: { options?: DailyNoteOptions };
+}
+
+/** App with its core plugin registry */
+type AppWithInternalPlugins = App & {
+    internalPlugins?: { getPluginById(id: string): DailyNotesPlugin | null };
+};
+
+/** Daily note name format when the Daily Notes core plugin is off */
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+/** Daily Notes core plugin options, empty when the plugin is off */
+function getDailyNoteOptions(app: App): DailyNoteOptions {
+    const plugin = (app as AppWithInternalPlugins).internalPlugins?.getPluginById('daily-notes');
+    return plugin?.enabled ? plugin.instance?.options || {} : {};
+}
+
+/** Path of the daily note of a date, following the Daily Notes core plugin settings */
+export function getDailyNotePath(app: App, timestamp: string): string {
+    const options = getDailyNoteOptions(app);
+    const name = moment(timestamp, CLOCK_TIMESTAMP_FORMAT).format(options.format || DEFAULT_DAILY_NOTE_FORMAT);
+    return normalizePath(`${options.folder || ''}/${name}.md`);
+}
+
+/**
+ * Content of a daily note about to be created: the Daily Notes template with
+ * {{date}}, {{time}} (optionally {{date:FORMAT}}) and {{title}} filled in, empty without template
+ */
+export async function renderDailyNoteTemplate(app: App, timestamp: string): Promise<string> {
+    const options = getDailyNoteOptions(app);
+    if (!options.template) return '';
+
+    const templatePath = normalizePath(/\.md$/i.test(options.template) ? options.template : `${options.template}.md`);
+    const template = app.vault.getAbstractFileByPath(templatePath);
+    if (!(template instanceof TFile)) return '';
+
+    const date = moment(timestamp, CLOCK_TIMESTAMP_FORMAT);
+    const content = await app.vault.read(template);
+    return content
+        .replace(/{{\s*date\s*(?::(.*?))?\s*}}/gi, (_, format?: string) => date.format(format || DEFAULT_DAILY_NOTE_FORMAT))
+        .replace(/{{\s*time\s*(?::(.*?))?\s*}}/gi, (_, format?: string) => moment().format(format || 'HH:mm'))
+        .replace(/{{\s*title\s*}}/gi, date.format(options.format || DEFAULT_DAILY_NOTE_FORMAT));
+}
+
+/** Format a log line: "- 09:15–10:30 link" or a Day Planner timeblock "- [x] 09:15 - 10:30 link" */
+export function formatLogLine(entry: DailyLogEntry, style: DailyLogStyle, timeFormat: string): string {
+    const start = moment(entry.start, CLOCK_TIMESTAMP_FORMAT).format(timeFormat);
+    const end = entry.end ? moment(entry.end, CLOCK_TIMESTAMP_FORMAT).format(timeFormat) : '';
+
+    if (style === 'timeblock') {
+        return entry.end ? `- [x] ${start} - ${end} ${entry.link}` : `- [ ] ${start} ${entry.link}`;
+    }
+    return `- ${start}–${end} ${entry.link}`;
+}
+
+/**
+ * Add the log line to the daily note lines, or close the line written at clock-in
+ * With a heading, lines go at the end of that section (created when missing)
+ */
+export function upsertLogLine(lines: string[], entry: DailyLogEntry, style: DailyLogStyle, timeFormat: string, heading: string): string[] {
+    const line = formatLogLine(entry, style, timeFormat);
+
+    // Clock-out: replace the open line of the same task and start
+    if (entry.end) {
+        const openLine = formatLogLine({ ...entry, end: undefined }, style, timeFormat);
+        const index = lines.lastIndexOf(openLine);
+        if (index !== -1) {
+            lines[index] = line;
+            return lines;
+        }
+    }
+
+    const title = heading.trim();
+    if (!title) {
+        return appendToSection(lines, lines.length, line);
+    }
+
+    const headingIndex = lines.findIndex(l => l.trim() === title);
+    if (headingIndex === -1) {
+        while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+            lines.pop();
+        }
+        if (lines.length > 0) lines.push('');
+        lines.push(title, line, '');
+        return lines;
+    }
+
+    // Section ends at the next heading of the same or a higher level
+    const level = (/^#+/.exec(title) || [''])[0].length;
+    let sectionEnd = headingIndex + 1;
+    while (sectionEnd < lines.length) {
+        const match = /^(#+)\s/.exec(lines[sectionEnd]);
+        if (match && level > 0 && match[1].length <= level) break;
+        sectionEnd++;
+    }
+    return appendToSection(lines, sectionEnd, line);
+}
+
+/**
+ * Close the last open timeblock "- [ ] 09:15 link" of a link at the given time
+ * Returns false when the lines have no open timeblock for that link
+ */
+export function closeTimeblock(lines: string[], link: string, end: string, timeFormat: string): boolean {
+    const prefix = '- [ ] ';
+    const suffix = ` ${link}`;
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const line = lines[i];
+        if (line.startsWith(prefix) && line.endsWith(suffix) && line.length > prefix.length + suffix.length) {
+            const start = line.slice(prefix.length, line.length - suffix.length);
+            lines[i] = `- [x] ${start} - ${moment(end, CLOCK_TIMESTAMP_FORMAT).format(timeFormat)}${suffix}`;
+            return true;
+        }
+    }
+    return false;
+}
+
+/** Insert a line after the last non-empty line before the given index */
+function appendToSection(lines: string[], sectionEnd: number, line: string): string[] {
+    let insertAt = sectionEnd;
+    while (insertAt > 0 && lines[insertAt - 1].trim() === '') {
+        insertAt--;
+    }
+    lines.splice(insertAt, 0, line);
+    return lines;
+}
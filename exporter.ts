@@ -0,0 +1,190 @@
+/**
+ * Time export helpers
+ * Turns closed [clock::start--end] entries into CSV, JSON and iCalendar files
+ */
+import { moment } from 'obsidian';
+import type { BoardConfig, TaskClockRecord } from './types';
+import { CLOCK_TIMESTAMP_FORMAT, getIntervalDuration } from './clock';
+
+/** Export file formats */
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+/** Which tasks are exported */
+export interface ExportScope {
+    type: 'board' | 'folder' | 'tag';
+    /** Board ID, folder path or tag */
+    value: string;
+}
+
+/** One exported clock interval */
+export interface TimeEntry {
+    task: string;
+    file: string;
+    line: number;
+    tags: string[];
+    start: string;
+    end: string;
+    /** Duration in minutes */
+    duration: number;
+}
+
+/** Remove the leading slash of a folder setting (vault paths have none) */
+function toVaultFolder(folder: string): string {
+    return folder.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/** Whether a task record belongs to the export scope */
+export function isInScope(record: TaskClockRecord, scope: ExportScope, boards: BoardConfig[]): boolean {
+    switch (scope.type) {
+        case 'board': {
+            const board = boards.find(b => b.id === scope.value);
+            if (!board) return false;
+            const excluded = board.excludedFolders.map(toVaultFolder).filter(folder => !!folder);
+            if (excluded.some(folder => record.sourcePath.startsWith(folder))) return false;
+            return record.sourcePath.startsWith(toVaultFolder(board.folderFilter));
+        }
+        case 'folder':
+            return record.sourcePath.startsWith(toVaultFolder(scope.value));
+        case 'tag': {
+            const tag = scope.value.trim().replace(/^#?/, '#').toLowerCase();
+            // Nested tags (#client/acme) count for their parent tag
+            return record.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+        }
+    }
+}
+
+/** Closed intervals starting inside the date range (YYYY-MM-DD, inclusive), oldest first */
+export function collectTimeEntries(records: TaskClockRecord[], from: string, to: string): TimeEntry[] {
+    const rangeStart = moment(from, 'YYYY-MM-DD').startOf('day');
+    const rangeEnd = moment(to, 'YYYY-MM-DD').endOf('day');
+    const entries: TimeEntry[] = [];
+
+    for (const record of records) {
+        for (const interval of record.intervals) {
+            if (!interval.end) continue;
+
+            const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT);
+            if (!start.isValid() || start.isBefore(rangeStart) || start.isAfter(rangeEnd)) continue;
+
+            entries.push({
+                task: record.description,
+                file: record.sourcePath,
+                line: record.lineNumber,
+                tags: record.tags,
+                start: interval.start,
+                end: interval.end,
+                duration: Math.round(getIntervalDuration(interval) / 600) / 100,
+            });
+        }
+    }
+
+    return entries.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Quote a CSV field when needed */
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV with a header row */
+export function toCsv(entries: TimeEntry[]): string {
+    const rows = [['task', 'file', 'tags', 'start', 'end', 'duration']];
+    entries.forEach(entry => rows.push([
+        entry.task, entry.file, entry.tags.join(' '), entry.start, entry.end, String(entry.duration),
+    ]));
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** JSON array of entries */
+export function toJson(entries: TimeEntry[]): string {
+    return JSON.stringify(entries, null, 2);
+}
+
+/** Escape an iCalendar text value */
+function icsText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** UTF-8 length of a character (one code point) */
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0) || 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    if (code < 0x10000) return 3;
+    return 4;
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 3.1)
+ * Continuation lines start with a space; characters are never split across lines
+ */
+function icsFold(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = utf8Length(char);
+        if (octets + size > 75) {
+            parts.push(current);
+            current = ' ';
+            octets = 1;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n');
+}
+
+/** Short stable hash, so re-exported events keep their UID */
+function hash(value: string): string {
+    let h = 5381;
+    for (let i = 0; i < value.length; i++) {
+        h = ((h << 5) + h + value.charCodeAt(i)) | 0;
+    }
+    return (h >>> 0).toString(36);
+}
+
+/** iCalendar file with one VEVENT per interval (floating local times) */
+export function toIcs(entries: TimeEntry[]): string {
+    const icsTime = (timestamp: string) => moment(timestamp, CLOCK_TIMESTAMP_FORMAT).format('YYYYMMDD[T]HHmmss');
+    const stamp = moment.utc().format('YYYYMMDD[T]HHmmss[Z]');
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Clock Kanban//Time export//EN',
+        'CALSCALE:GREGORIAN',
+    ];
+    entries.forEach(entry => {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${icsTime(entry.start)}-${hash(`${entry.file}:${entry.task}`)}@clock-kanban`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icsTime(entry.start)}`,
+            `DTEND:${icsTime(entry.end)}`,
+            `SUMMARY:${icsText(entry.task)}`,
+            `DESCRIPTION:${icsText(entry.file)}`,
+        );
+        if (entry.tags.length > 0) {
+            lines.push(`CATEGORIES:${entry.tags.map(tag => icsText(tag.replace(/^#/, ''))).join(',')}`);
+        }
+        lines.push('END:VEVENT');
+    });
+    lines.push('END:VCALENDAR');
+
+    return lines.map(icsFold).join('\r\n') + '\r\n';
+}
+
+/** Render entries in the given format */
+export function formatTimeEntries(entries: TimeEntry[], format: ExportFormat): string {
+    switch (format) {
+        case 'csv':
+            return toCsv(entries);
+        case 'json':
+            return toJson(entries);
+        case 'ics':
+            return toIcs(entries);
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Board filter helpers
+ * Tag, priority, due date and text matching for the filter bar
+ */
+import type { KanbanTask, TaskFilter } from './types';
+
+/** Whether a filter lets every task through */
+export function isFilterEmpty(filter: TaskFilter): boolean {
+    return filter.includeTags.length === 0
+        && filter.excludeTags.length === 0
+        && filter.priorities.length === 0
+        && !filter.dueFrom
+        && !filter.dueTo
+        && !filter.text.trim();
+}
+
+/** Check a task against a filter */
+export function matchesFilter(task: KanbanTask, filter: TaskFilter): boolean {
+    const tags = task.tags.map(tag => tag.toLowerCase());
+
+    // Tags: all included, none excluded
+    if (!filter.includeTags.every(tag => tags.includes(tag.toLowerCase()))) return false;
+    if (filter.excludeTags.some(tag => tags.includes(tag.toLowerCase()))) return false;
+
+    // Priority
+    if (filter.priorities.length > 0 && !filter.priorities.includes(task.priority || 'none')) return false;
+
+    // Due date range (tasks without due date are left out when a range is set)
+    if (filter.dueFrom || filter.dueTo) {
+        if (!task.dueDate) return false;
+        if (filter.dueFrom && task.dueDate < filter.dueFrom) return false;
+        if (filter.dueTo && task.dueDate > filter.dueTo) return false;
+    }
+
+    // Free text, every word must match
+    const words = filter.text.toLowerCase().split(/\s+/).filter(word => !!word);
+    if (words.length > 0) {
+        const haystack = `${task.description} ${task.tags.join(' ')} ${task.sourcePath}`.toLowerCase();
+        if (!words.every(word => haystack.includes(word))) return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,11 @@
+/** Unit tests of the pure helpers, with a small stand-in for the obsidian module */
+module.exports = {
+	testEnvironment: "node",
+	roots: ["<rootDir>/tests"],
+	moduleNameMapper: {
+		"^obsidian$": "<rootDir>/tests/__mocks__/obsidian.ts",
+	},
+	transform: {
+		"^.+\\.ts$": ["ts-jest", { tsconfig: { module: "commonjs", target: "ES2019", isolatedModules: true } }],
+	},
+};
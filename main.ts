@@ -2,16 +2,42 @@
  * Clock Kanban plugin for Obsidian
  * Kanban board with automatic clock-in/clock-out via Day Planner
  */
-import { Plugin, WorkspaceLeaf, TFile, moment, Notice, debounce, MarkdownView } from 'obsidian';
+import { Plugin, WorkspaceLeaf, TFile, TFolder, moment, Notice, MarkdownView, normalizePath } from 'obsidian';
 import { KanbanView, VIEW_TYPE_CLOCK_KANBAN } from './KanbanView';
-import { ClockKanbanSettings, ClockKanbanSettingTab, DEFAULT_SETTINGS } from './ClockKanbanSettings';
-import type { KanbanTask, KanbanColumnType } from './types';
+import type { KanbanBoard } from './KanbanBoard';
+import { StatsView, VIEW_TYPE_CLOCK_STATS } from './StatsView';
+import { ClockStatusBar } from './ClockStatusBar';
+import { ClockGuard } from './ClockGuard';
+import { TaskIndex, INDEX_CHANGED_EVENT } from './TaskIndex';
+import { ClockKanbanSettings, ClockKanbanSettingTab, DEFAULT_SETTINGS, SETTINGS_VERSION, migrateSettings } from './ClockKanbanSettings';
+import { BoardSuggestModal } from './BoardSuggestModal';
+import { ExportModal } from './ExportModal';
+import { WeekSuggestModal } from './WeekSuggestModal';
+import { EMBED_CODE_BLOCK, KanbanEmbed, parseEmbedOptions } from './KanbanEmbed';
+import { CLOCK_LINE_REGEX, CLOCK_TIMESTAMP_FORMAT, OPEN_CLOCK_REGEX, formatClockEntry, readTaskClocks } from './clock';
+import { appendTaskId, findLineById, generateTaskId, readBlockId, readTaskId } from './taskId';
+import { compileTaskRegex, parseTaskLine } from './TaskScanner';
+import { setStatusSymbol } from './taskLine';
+import { buildTimesheet, getWeekLabel, mergeTimesheet } from './timesheet';
+import { closeTimeblock, getDailyNotePath, renderDailyNoteTemplate, upsertLogLine } from './dailyLog';
+import { AppWithRegistries, DAY_PLANNER_COMMANDS, resolveClockBackend } from './clockBackend';
+import { applyLineRules, formatMoveLogLine, getTransitionRules } from './columnRules';
+import { ClockKanbanApi, CLOCK_IN_EVENT, CLOCK_OUT_EVENT } from './ClockKanbanApi';
+import { ProtocolHandler } from './ProtocolHandler';
+import { EMPTY_FILTER } from './types';
+import type { KanbanTask, KanbanColumnType, ClockInterval, ClockOperationResult, RawTask, BoardConfig } from './types';
 
 /** Main plugin class */
 export default class ClockKanbanPlugin extends Plugin {
     settings: ClockKanbanSettings;
-    private kanbanView: KanbanView | null = null;
+    taskIndex: TaskIndex;
+    /** Public API for other plugins and scripts */
+    api: ClockKanbanApi;
+    /** Last board a card was selected on (view or embedded board) */
+    selectedBoard: KanbanBoard | null = null;
     private modificationQueue: Map<string, Promise<void>> = new Map();
+    private statusBar: ClockStatusBar;
+    private clockGuard: ClockGuard;
 
     async onload(): Promise<void> {
         console.log('Loading Clock Kanban plugin');
@@ -19,15 +45,30 @@ export default class ClockKanbanPlugin extends Plugin {
         // Load settings
         await this.loadSettings();
 
+        // Task and clock index, updated incrementally from vault events
+        this.taskIndex = new TaskIndex(this);
+        this.taskIndex.register();
+
+        // Public API, usable without an open board
+        this.api = new ClockKanbanApi(this);
+
         // Register Kanban view
         this.registerView(
             VIEW_TYPE_CLOCK_KANBAN,
-            (leaf: WorkspaceLeaf) => {
-                this.kanbanView = new KanbanView(leaf, this);
-                return this.kanbanView;
-            }
+            (leaf: WorkspaceLeaf) => new KanbanView(leaf, this)
         );
 
+        // Register statistics view
+        this.registerView(
+            VIEW_TYPE_CLOCK_STATS,
+            (leaf: WorkspaceLeaf) => new StatsView(leaf, this)
+        );
+
+        // Boards embedded in notes
+        this.registerMarkdownCodeBlockProcessor(EMBED_CODE_BLOCK, (source, el, ctx) => {
+            ctx.addChild(new KanbanEmbed(el, this, parseEmbedOptions(source)));
+        });
+
         // Command to open Kanban
         this.addCommand({
             id: 'open-clock-kanban',
@@ -47,6 +88,14 @@ export default class ClockKanbanPlugin extends Plugin {
             callback: () => this.refreshKanbanView(),
         });
 
+        // Commands to open a specific board
+        this.addCommand({
+            id: 'open-clock-kanban-board',
+            name: 'Open board…',
+            callback: () => new BoardSuggestModal(this.app, this.settings.boards, board => this.openBoard(board.id)).open(),
+        });
+        this.settings.boards.forEach(board => this.addBoardCommand(board));
+
         // Command to open current folder in Kanban
         this.addCommand({
             id: 'open-current-folder-kanban',
@@ -54,34 +103,100 @@ export default class ClockKanbanPlugin extends Plugin {
             callback: () => this.openCurrentFolderInKanban(),
         });
 
+        // Commands acting on the selected card (hotkeys assignable in Obsidian)
+        this.addCommand({
+            id: 'move-selected-card-next',
+            name: 'Move selected card to next column',
+            checkCallback: (checking: boolean) => this.runOnSelection(checking, board => board.moveSelected(1)),
+        });
+
+        this.addCommand({
+            id: 'move-selected-card-previous',
+            name: 'Move selected card to previous column',
+            checkCallback: (checking: boolean) => this.runOnSelection(checking, board => board.moveSelected(-1)),
+        });
+
+        this.addCommand({
+            id: 'clock-in-selected-card',
+            name: 'Clock in selected card',
+            checkCallback: (checking: boolean) => this.runOnSelection(checking, () => this.manualClockIn()),
+        });
+
+        this.addCommand({
+            id: 'clock-out-selected-card',
+            name: 'Clock out selected card',
+            checkCallback: (checking: boolean) => this.runOnSelection(checking, () => this.manualClockOut()),
+        });
+
+        this.addCommand({
+            id: 'clock-out-all',
+            name: 'Clock out all running tasks',
+            callback: () => this.clockOutAll(),
+        });
+
+        // Command to open time statistics
+        this.addCommand({
+            id: 'open-clock-stats',
+            name: 'Open Clock Statistics',
+            callback: () => this.openStatsView(),
+        });
+
+        // Command to export tracked time
+        this.addCommand({
+            id: 'export-tracked-time',
+            name: 'Export tracked time…',
+            callback: () => new ExportModal(this).open(),
+        });
+
+        // Command to generate a weekly timesheet note
+        this.addCommand({
+            id: 'generate-weekly-timesheet',
+            name: 'Generate weekly timesheet…',
+            callback: () => new WeekSuggestModal(this.app, weekStart => this.generateTimesheet(weekStart)).open(),
+        });
+
+        // obsidian://clock-kanban URI actions
+        new ProtocolHandler(this).register();
+
         // Add settings tab
         this.addSettingTab(new ClockKanbanSettingTab(this.app, this));
 
-        // Reopen view if it was open
-        this.app.workspace.onLayoutReady(() => {
+        // Status bar widget for running clocks
+        this.statusBar = new ClockStatusBar(this, this.addStatusBarItem());
+        this.registerInterval(window.setInterval(() => this.statusBar.update(), 1000));
+        this.registerEvent(this.taskIndex.on(INDEX_CHANGED_EVENT, () => this.statusBar.reload()));
+
+        // Automatic clock-out rules (max session, daily cut-off, idle)
+        this.clockGuard = new ClockGuard(this);
+        this.clockGuard.register();
+
+        // Build the index, then reopen view if it was open
+        this.app.workspace.onLayoutReady(async () => {
+            await this.taskIndex.ensureBuilt();
+            this.statusBar.reload();
+            // Close clocks forgotten while Obsidian was closed
+            await this.clockGuard.check();
             this.checkAndReopenView();
         });
 
-        // Auto-refresh when Kanban view becomes active
-        this.registerEvent(
-            this.app.workspace.on('active-leaf-change', (leaf) => {
-                if (leaf && leaf.view.getViewType() === VIEW_TYPE_CLOCK_KANBAN) {
-                    this.refreshKanbanView();
-                }
-            })
-        );
-
         console.log('Clock Kanban plugin loaded');
     }
 
     onunload(): void {
         console.log('Unloading Clock Kanban plugin');
-        this.kanbanView = null;
     }
 
     /** Load settings from storage */
     async loadSettings(): Promise<void> {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData() || {};
+        const storedVersion = data.schemaVersion;
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, migrateSettings(data));
+        this.settings.activeFilter = Object.assign({}, EMPTY_FILTER, this.settings.activeFilter);
+
+        // Keep the migrated settings, so older data is only migrated once
+        if (storedVersion !== SETTINGS_VERSION) {
+            await this.saveSettings();
+        }
     }
 
     /** Save settings */
@@ -94,50 +209,126 @@ export default class ClockKanbanPlugin extends Plugin {
         const { workspace } = this.app;
 
         // Check if view already exists
-        let leaf = workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN)[0];
+        const leaf = workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN)[0];
 
         if (!leaf) {
-            // Create new leaf in main area
-            leaf = workspace.getLeaf(false);
-            await leaf.setViewState({ type: VIEW_TYPE_CLOCK_KANBAN });
+            await this.openBoard(this.settings.activeBoardId);
+            return;
         }
 
         workspace.revealLeaf(leaf);
     }
 
-    /** Refresh Kanban view */
-    async refreshKanbanView(): Promise<void> {
-        if (this.kanbanView) {
-            await this.kanbanView.refresh();
-            if (this.settings.debugMessages) {
-                new Notice('Clock Kanban refreshed');
-            }
+    /**
+     * Open a board, reusing its view if already open
+     * An optional folder narrows the view without changing the board scope
+     */
+    async openBoard(boardId: string, folder?: string): Promise<void> {
+        const { workspace } = this.app;
+        const board = this.getBoard(boardId);
+
+        let leaf = this.getKanbanViews().find(view => view.boardId === board.id)?.leaf;
+        if (!leaf) {
+            // Reuse the current tab for the first board, open a new one for the others
+            leaf = workspace.getLeaf(workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN).length > 0);
+            await leaf.setViewState({ type: VIEW_TYPE_CLOCK_KANBAN, state: { boardId: board.id, folder } });
+        } else if (folder !== undefined) {
+            await leaf.setViewState({ type: VIEW_TYPE_CLOCK_KANBAN, state: { boardId: board.id, folder } });
+        }
+
+        if (this.settings.activeBoardId !== board.id) {
+            this.settings.activeBoardId = board.id;
+            await this.saveSettings();
+        }
+        workspace.revealLeaf(leaf);
+    }
+
+    /** Board by ID, falling back to the active board, then the first one */
+    getBoard(boardId?: string): BoardConfig {
+        const boards = this.settings.boards;
+        return boards.find(b => b.id === boardId)
+            || boards.find(b => b.id === this.settings.activeBoardId)
+            || boards[0];
+    }
+
+    /** Register the command opening a board */
+    addBoardCommand(board: BoardConfig): void {
+        this.addCommand({
+            id: `open-board-${board.id}`,
+            name: `Open board: ${board.name}`,
+            callback: () => this.openBoard(board.id),
+        });
+    }
+
+    /** Remove the command of a deleted board */
+    removeBoardCommand(board: BoardConfig): void {
+        (this.app as AppWithRegistries).commands?.removeCommand(`${this.manifest.id}:open-board-${board.id}`);
+    }
+
+    /** Open Kanban views */
+    getKanbanViews(): KanbanView[] {
+        return this.app.workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN)
+            .map(leaf => leaf.view)
+            .filter((view): view is KanbanView => view instanceof KanbanView);
+    }
+
+    /** Open statistics view */
+    async openStatsView(): Promise<void> {
+        const { workspace } = this.app;
+
+        let leaf = workspace.getLeavesOfType(VIEW_TYPE_CLOCK_STATS)[0];
+
+        if (!leaf) {
+            leaf = workspace.getLeaf(true);
+            await leaf.setViewState({ type: VIEW_TYPE_CLOCK_STATS });
         } else {
-            // Try to find existing view
-            const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN);
-            if (leaves.length > 0) {
-                const view = leaves[0].view as KanbanView;
-                await view.refresh();
-                if (this.settings.debugMessages) {
-                    new Notice('Clock Kanban refreshed');
-                }
-            }
+            await (leaf.view as StatsView).refresh();
+        }
+
+        workspace.revealLeaf(leaf);
+    }
+
+    /** Generate or update the timesheet note of a week, then open it */
+    async generateTimesheet(weekStart: moment.Moment): Promise<void> {
+        const excludedFolders = this.getBoard().excludedFolders
+            .filter(folder => !!folder)
+            .map(folder => (folder.startsWith('/') ? folder.substring(1) : folder));
+
+        await this.taskIndex.ensureBuilt();
+        const records = this.taskIndex.getClockRecords()
+            .filter(record => !excludedFolders.some(folder => record.sourcePath.startsWith(folder)));
+        const generated = buildTimesheet(records, weekStart, this.settings.timesheetTemplate);
+
+        const path = normalizePath(`${this.settings.timesheetFolder}/${getWeekLabel(weekStart)}.md`);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        const content = existing instanceof TFile ? await this.app.vault.read(existing) : null;
+        const file = await this.writeVaultFile(path, mergeTimesheet(content, generated));
+
+        await this.app.workspace.getLeaf(false).openFile(file);
+    }
+
+    /** Refresh every open board */
+    async refreshKanbanView(): Promise<void> {
+        const views = this.getKanbanViews();
+        for (const view of views) {
+            await view.refresh();
+        }
+        if (views.length > 0 && this.settings.debugMessages) {
+            new Notice('Clock Kanban refreshed');
         }
     }
 
     /** Check and reopen view if needed */
     private async checkAndReopenView(): Promise<void> {
-        const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLOCK_KANBAN);
-        if (leaves.length > 0) {
-            // View exists, update it
-            const view = leaves[0].view as KanbanView;
+        // Views exist, update them
+        for (const view of this.getKanbanViews()) {
             await view.refresh();
         }
     }
 
     /**
      * Perform clock-in for a task
-     * Via Day Planner command or direct modification
+     * Via the configured clock backend
      */
     async clockIn(task: KanbanTask): Promise<void> {
         try {
@@ -146,7 +337,7 @@ export default class ClockKanbanPlugin extends Plugin {
             }
 
             // Perform clock-in via property
-            await this.manageClockProperty(task, 'start');
+            await this.recordClock(task, 'start');
 
             if (this.settings.debugMessages) {
                 new Notice(`⏱️ Clock In: ${task.description.substring(0, 40)}...`);
@@ -154,13 +345,13 @@ export default class ClockKanbanPlugin extends Plugin {
             console.log(`Clock-in for task: ${task.id}`);
         } catch (error) {
             console.error('Error during clock-in:', error);
-            new Notice('Failed to clock in. Is Day Planner installed?');
+            new Notice('Failed to clock in. Check the clock backend in the settings.');
         }
     }
 
     /**
      * Perform clock-out for a task
-     * Via Day Planner command or direct modification
+     * Via the configured clock backend
      */
     async clockOut(task: KanbanTask): Promise<void> {
         try {
@@ -169,7 +360,7 @@ export default class ClockKanbanPlugin extends Plugin {
             }
 
             // Perform clock-out via property
-            await this.manageClockProperty(task, 'end');
+            await this.recordClock(task, 'end');
 
             if (this.settings.debugMessages) {
                 new Notice(`⏹️ Clock Out: ${task.description.substring(0, 40)}...`);
@@ -177,14 +368,190 @@ export default class ClockKanbanPlugin extends Plugin {
             console.log(`Clock-out for task: ${task.id}`);
         } catch (error) {
             console.error('Error during clock-out:', error);
-            new Notice('Failed to clock out. Is Day Planner installed?');
+            new Notice('Failed to clock out. Check the clock backend in the settings.');
+        }
+    }
+
+    /** Build a Kanban task from an index entry */
+    private toKanbanTask(raw: RawTask, board: BoardConfig = this.getBoard()): KanbanTask {
+        return {
+            id: raw.id || `${raw.path}-${raw.lineNumber}`,
+            stableId: raw.id,
+            description: raw.description,
+            column: board.clockColumn,
+            status: 'in_progress',
+            sourcePath: raw.path,
+            lineNumber: raw.lineNumber,
+            priority: raw.priority,
+            tags: raw.tags,
+            dueDate: raw.dueDate,
+            doneDate: raw.doneDate,
+            isClockedIn: true,
+            clocks: raw.clocks,
+        };
+    }
+
+    /**
+     * Clock out a task from the index (e.g. from the status bar)
+     * Explicit user action, so it runs even if auto clock-in/out is disabled
+     */
+    async clockOutRawTask(raw: RawTask, timestamp?: string): Promise<ClockOperationResult> {
+        return this.stopClock(this.toKanbanTask(raw), timestamp);
+    }
+
+    /** Clock in a task from the index (e.g. to resume it after an automatic clock-out) */
+    async clockInRawTask(raw: RawTask): Promise<void> {
+        await this.startClock(this.toKanbanTask(raw));
+    }
+
+    /**
+     * Clock in a task from a command or the keyboard
+     * Explicit user action, so it runs even if auto clock-in/out is disabled
+     */
+    async startClock(task: KanbanTask, board: BoardConfig = this.getBoard()): Promise<ClockOperationResult> {
+        if (this.settings.singleActiveClock) {
+            await this.pauseRunningClocks(task, board);
+        }
+
+        const result = await this.recordClock(task, 'start');
+        if (this.settings.debugMessages) {
+            new Notice(`⏱️ Clock In: ${task.description.substring(0, 40)}...`);
+        }
+        return result;
+    }
+
+    /**
+     * Clock out a task from a command or the keyboard
+     * Explicit user action, so it runs even if auto clock-in/out is disabled
+     */
+    async stopClock(task: KanbanTask, timestamp?: string): Promise<ClockOperationResult> {
+        const result = await this.recordClock(task, 'end', timestamp);
+        if (this.settings.debugMessages) {
+            new Notice(`⏹️ Clock Out: ${task.description.substring(0, 40)}...`);
+        }
+        return result;
+    }
+
+    /** Clock out a running task, clock in otherwise */
+    async toggleClock(task: KanbanTask, board: BoardConfig = this.getBoard()): Promise<void> {
+        if (task.clocks.some(clock => !clock.end)) {
+            await this.stopClock(task);
+        } else {
+            await this.startClock(task, board);
+        }
+    }
+
+    /** Clock out every task with an open clock */
+    async clockOutAll(): Promise<void> {
+        await this.taskIndex.ensureBuilt();
+        const running = this.taskIndex.getRunningClocks();
+        if (running.length === 0) {
+            new Notice('No running clock');
+            return;
+        }
+
+        for (const { task } of running) {
+            await this.clockOutRawTask(task);
+        }
+        new Notice(`⏹️ Clocked out ${running.length} task${running.length > 1 ? 's' : ''}`);
+    }
+
+    /**
+     * Single active clock: clock out every running task except the given one
+     * and move it to the pause column of the board
+     */
+    async pauseRunningClocks(except: KanbanTask, board: BoardConfig = this.getBoard()): Promise<void> {
+        const running = this.taskIndex.getRunningClocks()
+            .filter(({ task }) => !(task.path === except.sourcePath && task.lineNumber === except.lineNumber));
+
+        for (const { task: raw } of running) {
+            const task = this.toKanbanTask(raw, board);
+            await this.recordClock(task, 'end');
+            if (board.pauseColumn) {
+                await this.updateTaskStatus(task, board.pauseColumn, board, task.column);
+            }
+            if (this.settings.debugMessages) {
+                new Notice(`⏸️ Paused: ${task.description.substring(0, 40)}...`);
+            }
         }
     }
 
+    /**
+     * Clock in or out with the configured backend, then notify API listeners
+     * Backdated clock-outs (automatic clock-out) go to the property with the commands backend: Day Planner stamps the current time.
+     * A clock still open in the property is closed there whatever the backend.
+     */
+    private async recordClock(task: KanbanTask, type: 'start' | 'end', at?: string): Promise<ClockOperationResult> {
+        const timestamp = at || moment().format(CLOCK_TIMESTAMP_FORMAT);
+        const backend = resolveClockBackend(this.app, this.settings.clockBackend);
+        const closesProperty = type === 'end' && task.clocks.some(clock => !clock.end);
+
+        let success: boolean;
+        if (backend === 'daily-note' && !closesProperty) {
+            success = await this.recordTimeblock(task, type, timestamp);
+        } else {
+            success = backend === 'day-planner-commands' && !at && await this.runDayPlannerCommand(task, type);
+            if (!success) {
+                success = await this.manageClockProperty(task, type, timestamp);
+            }
+        }
+
+        const result: ClockOperationResult = {
+            success,
+            taskId: task.id,
+            operation: type === 'start' ? 'clock-in' : 'clock-out',
+            timestamp,
+            error: success ? undefined : 'Task line not found or not writable',
+        };
+        this.api.trigger(type === 'start' ? CLOCK_IN_EVENT : CLOCK_OUT_EVENT, result);
+        return result;
+    }
+
+    /**
+     * Run a Day Planner clock command with the cursor on the task line, false when it could not run
+     * The note opens in its own tab unless a tab already shows it, and the previous tab is active again afterwards
+     */
+    private async runDayPlannerCommand(task: KanbanTask, type: 'start' | 'end'): Promise<boolean> {
+        const commands = (this.app as AppWithRegistries).commands;
+        if (!commands) return false;
+
+        // Resolve the current line (tagging the task) before placing the cursor
+        if (await this.updateTaskLine(task, line => line) === null) return false;
+
+        const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
+        if (!(file instanceof TFile)) return false;
+
+        const workspace = this.app.workspace;
+        const previous = workspace.getMostRecentLeaf();
+        const existing = workspace.getLeavesOfType('markdown')
+            .find(l => (l.view as MarkdownView).file?.path === file.path);
+        const leaf = existing || workspace.getLeaf('tab');
+        if (!existing) await leaf.openFile(file, { active: false });
+        if (!(leaf.view instanceof MarkdownView)) return false;
+
+        // The command acts on the active editor
+        workspace.setActiveLeaf(leaf, { focus: true });
+        leaf.view.editor.setCursor({ line: task.lineNumber, ch: 0 });
+        const ran = commands.executeCommandById(DAY_PLANNER_COMMANDS[type]);
+        if (previous && previous !== leaf) {
+            workspace.setActiveLeaf(previous, { focus: true });
+        }
+        return ran;
+    }
+
+    /** Daily note backend: write a timeblock linked to the task, the task line only gets its ID */
+    private async recordTimeblock(task: KanbanTask, type: 'start' | 'end', timestamp: string): Promise<boolean> {
+        const line = await this.updateTaskLine(task, l => l);
+        if (line === null) return false;
+        return this.writeTimeblock(task, readBlockId(line), type, timestamp);
+    }
+
     /**
      * Manage clock property [clock::...] on the line below the task
+     * The clock is stamped now unless an earlier timestamp is given (automatic clock-out)
      */
-    private async manageClockProperty(task: KanbanTask, type: 'start' | 'end'): Promise<void> {
+    private async manageClockProperty(task: KanbanTask, type: 'start' | 'end', at?: string): Promise<boolean> {
+        let written = false;
         await this.queueFileAction(task.sourcePath, async () => {
             try {
                 const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
@@ -193,8 +560,8 @@ export default class ClockKanbanPlugin extends Plugin {
                 const content = await this.app.vault.read(file);
                 const lines = content.split('\n');
 
-                // Robust task identification: find current line number
-                let currentLine = this.findTaskInLines(lines, task.description, task.lineNumber);
+                // Stable task identification: resolve by ID, tagging the task on first touch
+                const currentLine = this.resolveTaskLine(lines, task);
                 if (currentLine === -1) {
                     console.warn(`Task not found in file: ${task.description}`);
                     return;
@@ -202,7 +569,9 @@ export default class ClockKanbanPlugin extends Plugin {
                 // Update memory status
                 task.lineNumber = currentLine;
 
-                const timestamp = moment().format('YYYY-MM-DDTHH:mm:ss');
+                const timestamp = at || moment().format(CLOCK_TIMESTAMP_FORMAT);
+                let logStart = '';
+                let logEnd: string | undefined;
 
                 if (type === 'start') {
                     const newClock = `[clock::${timestamp}]`;
@@ -210,19 +579,19 @@ export default class ClockKanbanPlugin extends Plugin {
 
                     // Find where to insert: after the task and any existing clock lines
                     let insertIndex = currentLine + 1;
-                    while (insertIndex < lines.length && /^\s*(\[clock::[^\]]+\]\s*)+$/.test(lines[insertIndex])) {
+                    while (insertIndex < lines.length && CLOCK_LINE_REGEX.test(lines[insertIndex])) {
                         insertIndex++;
                     }
 
                     lines.splice(insertIndex, 0, `${indentation}${newClock}`);
+                    logStart = timestamp;
                 } else {
                     // Find the last open clock line below the task
                     let searchIndex = currentLine + 1;
                     let lastOpenClockIndex = -1;
-                    const openClockRegex = /\[clock::((?:(?!\]|--).)+)\]/;
 
-                    while (searchIndex < lines.length && /^\s*(\[clock::[^\]]+\]\s*)+$/.test(lines[searchIndex])) {
-                        if (openClockRegex.test(lines[searchIndex])) {
+                    while (searchIndex < lines.length && CLOCK_LINE_REGEX.test(lines[searchIndex])) {
+                        if (OPEN_CLOCK_REGEX.test(lines[searchIndex])) {
                             lastOpenClockIndex = searchIndex;
                         }
                         searchIndex++;
@@ -232,7 +601,7 @@ export default class ClockKanbanPlugin extends Plugin {
                         const line = lines[lastOpenClockIndex];
                         let match: RegExpExecArray | null;
                         let lastMatch: RegExpExecArray | null = null;
-                        const regex = new RegExp(openClockRegex, 'g');
+                        const regex = new RegExp(OPEN_CLOCK_REGEX, 'g');
                         while ((match = regex.exec(line)) !== null) {
                             lastMatch = match;
                         }
@@ -243,19 +612,136 @@ export default class ClockKanbanPlugin extends Plugin {
                             const before = line.substring(0, lastMatch.index);
                             const after = line.substring(lastMatch.index + lastMatch[0].length);
                             lines[lastOpenClockIndex] = before + closedClock + after;
+                            logStart = startTime;
+                            logEnd = timestamp;
                         }
                     }
                 }
 
                 await this.app.vault.modify(file, lines.join('\n'));
+                written = true;
+
+                // Keep in-memory clock entries in sync for live timers
+                task.clocks = readTaskClocks(lines, currentLine);
+
+                // Queued after this edit, not awaited: the daily note may be this same file
+                if (logStart) {
+                    this.writeDailyLog(task, readBlockId(lines[currentLine]), logStart, logEnd);
+                }
             } catch (error) {
                 console.error('Error managing clock property:', error);
             }
         });
+        return written;
+    }
+
+    /** Add or close the log line of a clock interval in the daily note of the day it started */
+    private async writeDailyLog(task: KanbanTask, blockId: string | undefined, start: string, end?: string): Promise<void> {
+        const style = this.settings.dailyLogStyle;
+        if (style === 'off') return;
+
+        const path = getDailyNotePath(this.app, start);
+        await this.queueFileAction(path, async () => {
+            try {
+                const link = this.getTaskLink(task, blockId, path);
+                if (!link) return;
+
+                const content = await this.readDailyNote(path, start);
+                const lines = upsertLogLine(content.split('\n'), { start, end, link }, style, this.settings.timeFormat, this.settings.dailyLogHeading);
+                await this.writeVaultFile(path, lines.join('\n'));
+            } catch (error) {
+                console.error('Error writing daily note log:', error);
+            }
+        });
+    }
+
+    /** Open a timeblock in the daily note at clock-in, close the open one at clock-out; false when nothing was written */
+    private async writeTimeblock(task: KanbanTask, blockId: string | undefined, type: 'start' | 'end', timestamp: string): Promise<boolean> {
+        const path = getDailyNotePath(this.app, timestamp);
+        let written = false;
+        await this.queueFileAction(path, async () => {
+            try {
+                const link = this.getTaskLink(task, blockId, path);
+                if (!link) return;
+
+                const { timeFormat, dailyLogHeading } = this.settings;
+                let lines = (await this.readDailyNote(path, timestamp)).split('\n');
+                if (type === 'start') {
+                    lines = upsertLogLine(lines, { start: timestamp, link }, 'timeblock', timeFormat, dailyLogHeading);
+                } else if (!closeTimeblock(lines, link, timestamp, timeFormat)) {
+                    console.warn(`No open timeblock in ${path} for task: ${task.description}`);
+                    return;
+                }
+                await this.writeVaultFile(path, lines.join('\n'));
+                written = true;
+            } catch (error) {
+                console.error('Error writing daily note timeblock:', error);
+            }
+        });
+        return written;
+    }
+
+    /** Content of a daily note; a missing note starts from the Daily Notes template, like the core plugin does */
+    private async readDailyNote(path: string, timestamp: string): Promise<string> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        return existing instanceof TFile
+            ? this.app.vault.read(existing)
+            : renderDailyNoteTemplate(this.app, timestamp);
+    }
+
+    /** Append a move of a task to a log note (created when missing) */
+    private async appendMoveLog(task: KanbanTask, blockId: string | undefined, notePath: string, from: string, to: string): Promise<void> {
+        const path = normalizePath(/\.md$/i.test(notePath) ? notePath : `${notePath}.md`);
+        await this.queueFileAction(path, async () => {
+            try {
+                const link = this.getTaskLink(task, blockId, path);
+                if (!link) return;
+
+                const existing = this.app.vault.getAbstractFileByPath(path);
+                const content = existing instanceof TFile ? (await this.app.vault.read(existing)).replace(/\s+$/, '') : '';
+                const line = formatMoveLogLine(link, from, to, this.settings.timeFormat);
+                await this.writeVaultFile(path, content ? `${content}\n${line}\n` : `${line}\n`);
+            } catch (error) {
+                console.error('Error appending to log note:', error);
+            }
+        });
+    }
+
+    /** Link to a task from a note, to its block when it has one */
+    private getTaskLink(task: KanbanTask, blockId: string | undefined, fromPath: string): string | null {
+        const source = this.app.vault.getAbstractFileByPath(task.sourcePath);
+        if (!(source instanceof TFile)) return null;
+
+        const alias = task.description.replace(/[[\]|]/g, '');
+        return this.app.fileManager.generateMarkdownLink(source, fromPath, blockId ? `#^${blockId}` : '', alias);
+    }
+
+    /**
+     * Update task status symbol in file
+     * The automations of the column left and the column entered edit the line in the same step
+     */
+    async updateTaskStatus(task: KanbanTask, column: string, board: BoardConfig = this.getBoard(), sourceColumn?: string): Promise<void> {
+        // Determine new status based on the board column config
+        const colConfig = board.columns.find(c => c.id === column);
+        const newStatus = colConfig?.symbols[0] || ' ';
+        const rules = getTransitionRules(board, sourceColumn, column);
+        const today = moment().format('YYYY-MM-DD');
+
+        await this.updateTaskLine(task, line => applyLineRules(setStatusSymbol(line, newStatus), rules, today), line => {
+            const from = board.columns.find(c => c.id === sourceColumn)?.name || '';
+            const to = colConfig?.name || column;
+            // Queued after this edit, not awaited: the log note may be this same file
+            rules.forEach(rule => {
+                if (rule.action === 'append-to-note' && rule.value) {
+                    this.appendMoveLog(task, readBlockId(line), rule.value, from, to);
+                }
+            });
+        });
     }
 
-    /** Update task status symbol in file */
-    async updateTaskStatus(task: KanbanTask, column: string): Promise<void> {
+    /** Rewrite the task line in its source file, then call afterWrite with the new line; resolves to that line, null when not found */
+    async updateTaskLine(task: KanbanTask, transform: (line: string) => string, afterWrite?: (line: string) => void): Promise<string | null> {
+        let written: string | null = null;
         await this.queueFileAction(task.sourcePath, async () => {
             try {
                 const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
@@ -264,30 +750,104 @@ export default class ClockKanbanPlugin extends Plugin {
                 const content = await this.app.vault.read(file);
                 const lines = content.split('\n');
 
-                // Robust task identification
-                let currentLine = this.findTaskInLines(lines, task.description, task.lineNumber);
+                // Stable task identification: resolve by ID, tagging the task on first touch
+                const currentLine = this.resolveTaskLine(lines, task);
                 if (currentLine === -1) return;
                 task.lineNumber = currentLine;
 
-                const line = lines[currentLine];
+                lines[currentLine] = transform(lines[currentLine]);
+
+                const updatedContent = lines.join('\n');
+                if (updatedContent !== content) {
+                    await this.app.vault.modify(file, updatedContent);
+                }
+                written = lines[currentLine];
+                afterWrite?.(written);
+            } catch (error) {
+                console.error('Error updating task line:', error);
+            }
+        });
+        return written;
+    }
+
+    /** Rewrite every clock entry below the task, one interval per line */
+    async replaceTaskClocks(task: KanbanTask, intervals: ClockInterval[]): Promise<void> {
+        await this.queueFileAction(task.sourcePath, async () => {
+            try {
+                const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
+                if (!(file instanceof TFile)) return;
+
+                const content = await this.app.vault.read(file);
+                const lines = content.split('\n');
+
+                const currentLine = this.resolveTaskLine(lines, task);
+                if (currentLine === -1) return;
+                task.lineNumber = currentLine;
 
-                // Determine new status based on column config
-                const colConfig = this.settings.columns.find(c => c.name === column);
-                let newStatus = colConfig?.symbol || ' ';
+                let endIndex = currentLine + 1;
+                while (endIndex < lines.length && CLOCK_LINE_REGEX.test(lines[endIndex])) {
+                    endIndex++;
+                }
 
-                // Replace status in line
-                const updatedLine = line.replace(/- \[([^\]])\]/, `- [${newStatus}]`);
+                const clockLines = intervals.map(interval => `      ${formatClockEntry(interval)}`);
+                lines.splice(currentLine + 1, endIndex - currentLine - 1, ...clockLines);
 
-                if (updatedLine !== line) {
-                    lines[currentLine] = updatedLine;
-                    await this.app.vault.modify(file, lines.join('\n'));
+                const updatedContent = lines.join('\n');
+                if (updatedContent !== content) {
+                    await this.app.vault.modify(file, updatedContent);
                 }
+
+                task.clocks = readTaskClocks(lines, currentLine);
+                task.isClockedIn = task.clocks.some(clock => !clock.end);
             } catch (error) {
-                console.error('Error updating task status:', error);
+                console.error('Error replacing clock entries:', error);
             }
         });
     }
 
+    /** Tag tasks that have no stable ID yet, with one write per file */
+    async ensureTaskIds(tasks: KanbanTask[]): Promise<void> {
+        const byFile = new Map<string, KanbanTask[]>();
+        tasks.filter(task => !task.stableId).forEach(task => {
+            byFile.set(task.sourcePath, [...(byFile.get(task.sourcePath) || []), task]);
+        });
+
+        for (const [path, fileTasks] of byFile) {
+            await this.queueFileAction(path, async () => {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) return;
+
+                const content = await this.app.vault.read(file);
+                const lines = content.split('\n');
+                fileTasks.forEach(task => {
+                    const line = this.resolveTaskLine(lines, task);
+                    if (line !== -1) task.lineNumber = line;
+                });
+
+                const updatedContent = lines.join('\n');
+                if (updatedContent !== content) {
+                    await this.app.vault.modify(file, updatedContent);
+                }
+            });
+        }
+    }
+
+    /** Create or overwrite a vault file, creating its folder when missing */
+    async writeVaultFile(path: string, content: string): Promise<TFile> {
+        const filePath = normalizePath(path);
+        const folderPath = filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+        if (folderPath && !(this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const existing = this.app.vault.getAbstractFileByPath(filePath);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+        return this.app.vault.create(filePath, content);
+    }
+
     /** Helper to queue file actions sequentially */
     private async queueFileAction(path: string, action: () => Promise<void>): Promise<void> {
         const currentAction = this.modificationQueue.get(path) || Promise.resolve();
@@ -298,84 +858,128 @@ export default class ClockKanbanPlugin extends Plugin {
         return nextAction;
     }
 
-    /** Helper to find task line in content precisely */
-    private findTaskInLines(lines: string[], description: string, startIndex: number): number {
-        // 1. Check if it's still at the original position
-        if (startIndex >= 0 && startIndex < lines.length) {
-            if (lines[startIndex].includes(description) && lines[startIndex].includes('- [')) {
-                return startIndex;
+    /**
+     * Find the task line, tagging the task with a stable ID on first touch
+     * Returns -1 (and notifies) when a known ID is no longer in the file
+     */
+    private resolveTaskLine(lines: string[], task: KanbanTask): number {
+        // 1. Tasks with an ID are only ever resolved by that ID
+        if (task.stableId) {
+            const line = findLineById(lines, task.stableId, task.lineNumber);
+            if (line === -1) {
+                new Notice(`Task ID "${task.stableId}" not found in ${task.sourcePath}. Was the line moved to another file or its ID removed?`);
             }
+            return line;
+        }
+
+        // 2. Untagged task: locate by description, then tag it so later edits never guess
+        const line = this.findTaskInLines(lines, task.description, task.lineNumber);
+        if (line === -1) return -1;
+
+        let id = readTaskId(lines[line]);
+        if (!id) {
+            id = generateTaskId(lines);
+            lines[line] = appendTaskId(lines[line], id, this.settings.taskIdStyle);
+        }
+        task.stableId = id;
+        task.id = id;
+        return line;
+    }
+
+    /** Helper to find an untagged task line by its description */
+    private findTaskInLines(lines: string[], description: string, startIndex: number): number {
+        const regex = compileTaskRegex(this.settings.taskRegex);
+        const isExactMatch = (index: number) =>
+            parseTaskLine(lines[index], regex, '', index)?.description === description;
+        const isPartialMatch = (index: number) =>
+            lines[index].includes(description) && lines[index].includes('- [');
+
+        // 1. Same description, still at the original position
+        const inRange = startIndex >= 0 && startIndex < lines.length;
+        if (inRange && isExactMatch(startIndex)) {
+            return startIndex;
         }
 
-        // 2. Scan file for a matching task line
+        // 2. Same description anywhere in the file
         for (let i = 0; i < lines.length; i++) {
-            if (lines[i].includes(description) && lines[i].includes('- [')) {
-                return i;
-            }
+            if (isExactMatch(i)) return i;
+        }
+
+        // 3. Only then a line containing it, at the original position first
+        if (inRange && isPartialMatch(startIndex)) {
+            return startIndex;
+        }
+        for (let i = 0; i < lines.length; i++) {
+            if (isPartialMatch(i)) return i;
         }
 
         return -1;
     }
 
+    /**
+     * Read the clock entries listed below a task
+     */
+    async getTaskClocks(task: KanbanTask): Promise<ClockInterval[]> {
+        await this.taskIndex.ensureBuilt();
+        return this.taskIndex.getClocks(task.sourcePath, task.lineNumber);
+    }
+
     /**
      * Check if a task has an open clock property below it
      */
     async checkIfTaskIsClockedIn(task: KanbanTask): Promise<boolean> {
-        try {
-            const file = this.app.vault.getAbstractFileByPath(task.sourcePath);
-            if (!(file instanceof TFile)) return false;
-
-            const content = await this.app.vault.read(file);
-            const lines = content.split('\n');
-            if (task.lineNumber < 0 || task.lineNumber >= lines.length) return false;
-
-            let searchIndex = task.lineNumber + 1;
-            const openClockRegex = /\[clock::((?:(?!\]|--).)+)\]/;
+        const clocks = await this.getTaskClocks(task);
+        return clocks.some(clock => !clock.end);
+    }
 
-            while (searchIndex < lines.length && /^\s*(\[clock::[^\]]+\]\s*)+$/.test(lines[searchIndex])) {
-                if (openClockRegex.test(lines[searchIndex])) {
-                    return true;
-                }
-                searchIndex++;
-            }
-        } catch (error) {
-            console.error('Error checking clock status:', error);
+    /**
+     * Command helper: available only while a card is selected
+     * Returns whether the command can run, as expected by checkCallback
+     */
+    private runOnSelection(checking: boolean, action: (board: KanbanBoard) => Promise<void>): boolean {
+        const board = this.selectedBoard;
+        if (!board || !board.selectedTask) return false;
+        if (!checking) {
+            action(board).catch(error => {
+                console.error('Error running command on the selected card:', error);
+                new Notice('The command failed on the selected card. See the console for details.');
+            });
         }
-        return false;
+        return true;
     }
 
-    /** Manual clock-in for active task */
+    /** Manual clock-in for the selected card */
     private async manualClockIn(): Promise<void> {
-        const activeFile = this.app.workspace.getActiveFile();
-        if (!activeFile) {
-            new Notice('No active file');
+        const board = this.selectedBoard;
+        const task = board?.selectedTask;
+        if (!board || !task) {
+            new Notice('No card selected');
             return;
         }
 
-        // Try to find task in Kanban view
-        if (this.kanbanView) {
-            const workingTasks = this.kanbanView.tasks.filter(t => t.column === 'Working');
-            if (workingTasks.length > 0) {
-                await this.clockIn(workingTasks[0]);
-            } else {
-                new Notice('No task in Working column');
-            }
+        if (task.clocks.some(clock => !clock.end)) {
+            new Notice('The selected task is already clocked in');
+            return;
         }
+        await this.startClock(task, board.board);
     }
 
-    /** Manual clock-out for active task */
+    /** Manual clock-out for the selected card */
     private async manualClockOut(): Promise<void> {
-        if (this.kanbanView) {
-            const workingTasks = this.kanbanView.tasks.filter(t => t.column === 'Working');
-            if (workingTasks.length > 0) {
-                await this.clockOut(workingTasks[0]);
-            } else {
-                new Notice('No task in Working column');
-            }
+        const task = this.selectedBoard?.selectedTask;
+        if (!task) {
+            new Notice('No card selected');
+            return;
+        }
+
+        if (!task.clocks.some(clock => !clock.end)) {
+            new Notice('The selected task is not clocked in');
+            return;
         }
+        await this.stopClock(task);
     }
 
-    /** Open the folder of the currently active file in Kanban */
+    /** Open the folder of the currently active file in the active board, without changing its scope */
     private async openCurrentFolderInKanban(): Promise<void> {
         const activeFile = this.app.workspace.getActiveFile();
         if (!activeFile) {
@@ -391,29 +995,14 @@ export default class ClockKanbanPlugin extends Plugin {
 
         const folderPath = parentFolder.path === '/' ? '/' : `/${parentFolder.path}`;
 
-        this.settings.folderFilter = folderPath;
-        await this.saveSettings();
-
-        await this.openKanbanView();
-        await this.refreshKanbanView();
+        await this.openBoard(this.settings.activeBoardId, folderPath);
     }
 
     /**
-     * Move task to specific column
-     * Can be used by other plugins or commands
+     * Move task to specific column of the active board
+     * Kept for older scripts, see api.moveTask
      */
     async moveTaskToColumn(taskId: string, column: KanbanColumnType): Promise<boolean> {
-        if (!this.kanbanView) {
-            return false;
-        }
-
-        const task = this.kanbanView.tasks.find(t => t.id === taskId);
-        if (!task) {
-            return false;
-        }
-
-        const sourceColumn = task.column;
-        await this.kanbanView.handleTaskMove(task, sourceColumn, column);
-        return true;
+        return this.api.moveTask(taskId, column);
     }
 }
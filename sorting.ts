@@ -0,0 +1,60 @@
+/**
+ * Column sorting helpers
+ * Automatic card order by due date, priority, tracked time, clock-in, file, description or completion
+ */
+import type { ColumnSort, ColumnSortKey, KanbanTask } from './types';
+import { getIntervalDuration } from './clock';
+
+/** Sort key names shown in the settings */
+export const SORT_KEY_LABELS: Record<ColumnSortKey, string> = {
+    'due': 'Due date',
+    'priority': 'Priority',
+    'tracked': 'Tracked time',
+    'last-clock-in': 'Last clock-in',
+    'file': 'Source file',
+    'description': 'Description',
+    'completion': 'Completion date',
+};
+
+/** Priority ranks (no priority sits between medium and low, as in the Tasks plugin) */
+const PRIORITY_RANKS: Record<string, number> = {
+    high: 3,
+    medium: 2,
+    none: 1,
+    low: 0,
+};
+
+/** Value of a task for a sort key, undefined when the task has none */
+function getSortValue(task: KanbanTask, key: ColumnSortKey): string | number | undefined {
+    switch (key) {
+        case 'due':
+            return task.dueDate;
+        case 'priority':
+            return PRIORITY_RANKS[task.priority || 'none'];
+        case 'tracked':
+            return task.clocks.reduce((total, clock) => total + getIntervalDuration(clock), 0);
+        case 'last-clock-in':
+            return task.clocks.reduce<string | undefined>((latest, clock) =>
+                (!latest || clock.start > latest ? clock.start : latest), undefined);
+        case 'file':
+            return task.sourcePath.toLowerCase();
+        case 'description':
+            return task.description.toLowerCase();
+        case 'completion':
+            return task.doneDate;
+    }
+}
+
+/** Compare two tasks for a sort rule; tasks without a value always go last */
+export function compareTasks(a: KanbanTask, b: KanbanTask, sort: ColumnSort): number {
+    const valueA = getSortValue(a, sort.key);
+    const valueB = getSortValue(b, sort.key);
+
+    if (valueA === undefined || valueB === undefined) {
+        if (valueA === valueB) return 0;
+        return valueA === undefined ? 1 : -1;
+    }
+
+    const result = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+    return sort.direction === 'desc' ? -result : result;
+}
@@ -0,0 +1,68 @@
+/**
+ * Stable task identity
+ * Tasks are tagged with an Obsidian block ID (^ck-xxxx) or a Tasks 🆔 field
+ */
+import { insertField } from './taskLine';
+
+/** How new task IDs are written in the source line */
+export type TaskIdStyle = 'block-id' | 'tasks-id';
+
+/** Obsidian block ID at the end of a line */
+const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/** Tasks plugin ID field */
+const TASKS_ID_REGEX = /🆔\s*([A-Za-z0-9_-]+)/u;
+
+/** Every ID found on a line (Tasks 🆔 first, then block ID) */
+export function readTaskIds(line: string): string[] {
+    const ids: string[] = [];
+    const tasksMatch = TASKS_ID_REGEX.exec(line);
+    if (tasksMatch) ids.push(tasksMatch[1]);
+    const blockMatch = BLOCK_ID_REGEX.exec(line);
+    if (blockMatch) ids.push(blockMatch[1]);
+    return ids;
+}
+
+/** Primary ID of a line, if any */
+export function readTaskId(line: string): string | undefined {
+    return readTaskIds(line)[0];
+}
+
+/** Block ID of a line, the target of [[file#^id]] links */
+export function readBlockId(line: string): string | undefined {
+    return BLOCK_ID_REGEX.exec(line)?.[1];
+}
+
+/** Remove ID markers from task text */
+export function stripTaskIds(text: string): string {
+    return text.replace(BLOCK_ID_REGEX, '').replace(TASKS_ID_REGEX, '').trim();
+}
+
+/** Generate an ID not used anywhere in the given lines */
+export function generateTaskId(lines: string[]): string {
+    const used = new Set<string>();
+    lines.forEach(line => readTaskIds(line).forEach(id => used.add(id)));
+
+    let id: string;
+    do {
+        id = `ck-${Math.random().toString(36).substring(2, 8)}`;
+    } while (used.has(id));
+    return id;
+}
+
+/** Append an ID to a task line, keeping a trailing block ID last */
+export function appendTaskId(line: string, id: string, style: TaskIdStyle): string {
+    const trimmed = line.replace(/\s+$/, '');
+    if (style === 'block-id') {
+        return `${trimmed} ^${id}`;
+    }
+    return insertField(trimmed, `🆔 ${id}`);
+}
+
+/** Find the line carrying an ID, checking the expected position first */
+export function findLineById(lines: string[], id: string, expectedLine: number): number {
+    if (expectedLine >= 0 && expectedLine < lines.length && readTaskIds(lines[expectedLine]).includes(id)) {
+        return expectedLine;
+    }
+    return lines.findIndex(line => readTaskIds(line).includes(id));
+}
@@ -0,0 +1,76 @@
+/**
+ * Task line editing helpers
+ * Small string transforms applied to a task line in its source file
+ */
+
+/** Obsidian block ID at the end of a line (must stay last) */
+const TRAILING_BLOCK_ID_REGEX = /\s\^[A-Za-z0-9-]+\s*$/;
+
+/** Priority emoji written for each priority */
+const PRIORITY_EMOJIS: Record<'low' | 'medium' | 'high', string> = {
+    high: '⏫',
+    medium: '🔼',
+    low: '🔽',
+};
+
+/** Any Tasks priority emoji */
+const PRIORITY_MARKER_REGEX = /\s*(?:🔺|⏫|🔼|🔽|⏬)/gu;
+
+/** Emoji of each Tasks date field */
+const DATE_FIELD_EMOJIS: Record<'due' | 'done' | 'cancelled', string> = {
+    due: '📅',
+    done: '✅',
+    cancelled: '❌',
+};
+
+/** Append a field to a task line, keeping a trailing block ID last */
+export function insertField(line: string, field: string): string {
+    const trimmed = line.replace(/\s+$/, '');
+    const blockMatch = TRAILING_BLOCK_ID_REGEX.exec(trimmed);
+    if (blockMatch) {
+        const before = trimmed.substring(0, blockMatch.index);
+        return `${before} ${field}${trimmed.substring(blockMatch.index)}`;
+    }
+    return `${trimmed} ${field}`;
+}
+
+/** Replace the status symbol of a checkbox line */
+export function setStatusSymbol(line: string, symbol: string): string {
+    return line.replace(/- \[([^\]])\]/, `- [${symbol}]`);
+}
+
+/** Set (or remove) the Tasks priority emoji of a line */
+export function setPriority(line: string, priority?: 'low' | 'medium' | 'high'): string {
+    const cleaned = line.replace(PRIORITY_MARKER_REGEX, '');
+    return priority ? insertField(cleaned, PRIORITY_EMOJIS[priority]) : cleaned;
+}
+
+/** Set (or remove) a Tasks date field, e.g. ✅ 2026-10-19 */
+export function setDateField(line: string, field: keyof typeof DATE_FIELD_EMOJIS, date?: string): string {
+    const emoji = DATE_FIELD_EMOJIS[field];
+    const cleaned = line.replace(new RegExp(`\\s*${emoji}\\s*\\d{4}-\\d{2}-\\d{2}`, 'gu'), '');
+    return date ? insertField(cleaned, `${emoji} ${date}`) : cleaned;
+}
+
+/** Whole-word match of a tag in a line */
+function tagRegex(tag: string): RegExp {
+    const escaped = tag.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    return new RegExp(`(^|\\s)${escaped}(?=\\s|$)`);
+}
+
+/** Whether a line has a tag */
+export function hasTag(line: string, tag: string): boolean {
+    return tagRegex(tag).test(line);
+}
+
+/** Replace a tag of a line; an empty new tag removes it, a missing old tag adds the new one */
+export function replaceTag(line: string, oldTag: string | undefined, newTag: string): string {
+    if (!oldTag) {
+        return newTag ? insertField(line, newTag) : line;
+    }
+
+    const regex = tagRegex(oldTag);
+    return newTag
+        ? line.replace(regex, `$1${newTag}`)
+        : line.replace(regex, '');
+}
@@ -0,0 +1,24 @@
+/**
+ * Stand-in for the obsidian module in unit tests
+ * The obsidian package only ships type definitions: this provides what the tested modules use at load time
+ */
+import * as moment from 'moment';
+
+export { moment };
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown): (...args: T) => void {
+    return (...args: T) => {
+        callback(...args);
+    };
+}
+
+export class Events {}
+export class TFile {}
+export class Component {}
+export class Modal {}
+export class PluginSettingTab {}
+export class Setting {}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatClockEntry, formatDuration, getIntervalDuration, parseClockEntries, readTaskClocks, scanClockBlocks, validateIntervals } from '../clock';
+
+const NOW = new Date(2026, 9, 19, 12, 0, 0).getTime();
+
+describe('clock entries', () => {
+    it('parses closed and open entries', () => {
+        expect(parseClockEntries('      [clock::2026-10-19T09:00:00--2026-10-19T10:00:00] [clock::2026-10-19T11:00:00]')).toEqual([
+            { start: '2026-10-19T09:00:00', end: '2026-10-19T10:00:00' },
+            { start: '2026-10-19T11:00:00' },
+        ]);
+    });
+
+    it('reads the clock lines directly below a task', () => {
+        const lines = [
+            '- [ ] Task',
+            '      [clock::2026-10-19T09:00:00--2026-10-19T10:00:00]',
+            '      [clock::2026-10-19T11:00:00]',
+            '- [ ] Other',
+            '      [clock::2026-10-18T09:00:00--2026-10-18T09:30:00]',
+        ];
+        expect(readTaskClocks(lines, 0)).toHaveLength(2);
+        expect(readTaskClocks(lines, 3)).toEqual([{ start: '2026-10-18T09:00:00', end: '2026-10-18T09:30:00' }]);
+
+        const blocks = scanClockBlocks(lines);
+        expect([...blocks.keys()]).toEqual([0, 3]);
+    });
+
+    it('writes an interval back', () => {
+        expect(formatClockEntry({ start: '2026-10-19T09:00:00', end: '2026-10-19T10:00:00' })).toBe('[clock::2026-10-19T09:00:00--2026-10-19T10:00:00]');
+        expect(formatClockEntry({ start: '2026-10-19T09:00:00' })).toBe('[clock::2026-10-19T09:00:00]');
+    });
+});
+
+describe('durations', () => {
+    it('measures closed and running intervals', () => {
+        expect(getIntervalDuration({ start: '2026-10-19T09:00:00', end: '2026-10-19T10:30:00' })).toBe(90 * 60 * 1000);
+        expect(getIntervalDuration({ start: '2026-10-19T11:00:00' }, NOW)).toBe(60 * 60 * 1000);
+        expect(getIntervalDuration({ start: 'not a date', end: '2026-10-19T10:30:00' })).toBe(0);
+    });
+
+    it('formats durations', () => {
+        expect(formatDuration(125 * 60 * 1000)).toBe('2h 05m');
+        expect(formatDuration(9 * 60 * 1000)).toBe('9m');
+        expect(formatDuration((2 * 3600 + 5 * 60 + 9) * 1000, true)).toBe('2:05:09');
+    });
+});
+
+describe('validateIntervals', () => {
+    it('accepts sorted intervals with a running last one', () => {
+        expect(validateIntervals([
+            { start: '2026-10-19T09:00:00', end: '2026-10-19T10:00:00' },
+            { start: '2026-10-19T10:00:00', end: '2026-10-19T11:00:00' },
+            { start: '2026-10-19T11:30:00' },
+        ], NOW)).toBeNull();
+    });
+
+    it('rejects invalid timestamps', () => {
+        expect(validateIntervals([{ start: '2026-10-19 09:00', end: '2026-10-19T10:00:00' }], NOW)).toBe('Interval 1: invalid start time');
+        expect(validateIntervals([{ start: '2026-10-19T09:00:00', end: '2026-10-19T25:00:00' }], NOW)).toBe('Interval 1: invalid end time');
+    });
+
+    it('rejects intervals ending before they start', () => {
+        expect(validateIntervals([{ start: '2026-10-19T10:00:00', end: '2026-10-19T09:00:00' }], NOW)).toBe('Interval 1: ends before it starts');
+    });
+
+    it('only allows the last interval to run, and not from the future', () => {
+        expect(validateIntervals([
+            { start: '2026-10-19T09:00:00' },
+            { start: '2026-10-19T10:00:00', end: '2026-10-19T11:00:00' },
+        ], NOW)).toBe('Interval 1: only the last interval can be running');
+        expect(validateIntervals([{ start: '2026-10-19T13:00:00' }], NOW)).toBe('Interval 1: running interval starts in the future');
+    });
+
+    it('rejects overlapping intervals', () => {
+        expect(validateIntervals([
+            { start: '2026-10-19T09:00:00', end: '2026-10-19T10:30:00' },
+            { start: '2026-10-19T10:00:00', end: '2026-10-19T11:00:00' },
+        ], NOW)).toBe('Intervals 1 and 2 overlap');
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyLineRules, formatMoveLogLine, getTransitionRules } from '../columnRules';
+import type { BoardConfig } from '../types';
+
+const board: BoardConfig = {
+    id: 'dev',
+    name: 'Dev',
+    columns: [
+        { id: 'todo', name: 'TODO', color: '', symbols: [' '] },
+        { id: 'review', name: 'Review', color: '', symbols: ['/'], rules: [
+            { trigger: 'enter', action: 'add-tag', value: 'review' },
+            { trigger: 'exit', action: 'remove-tag', value: '#review' },
+        ] },
+        { id: 'done', name: 'Done', color: '', symbols: ['x'], rules: [
+            { trigger: 'enter', action: 'add-done-date' },
+            { trigger: 'exit', action: 'remove-done-date' },
+        ] },
+    ],
+    clockColumn: '',
+    pauseColumn: '',
+    folderFilter: '',
+    excludedFolders: [],
+};
+
+describe('getTransitionRules', () => {
+    it('runs the exit rules of the source column, then the entry rules of the target', () => {
+        expect(getTransitionRules(board, 'review', 'done').map(rule => rule.action)).toEqual(['remove-tag', 'add-done-date']);
+    });
+
+    it('has no rules when the card stays in its column', () => {
+        expect(getTransitionRules(board, 'done', 'done')).toEqual([]);
+    });
+
+    it('ignores unknown columns', () => {
+        expect(getTransitionRules(board, undefined, 'todo')).toEqual([]);
+    });
+});
+
+describe('applyLineRules', () => {
+    const date = '2026-10-19';
+
+    it('adds the done date before a trailing block ID', () => {
+        const rules = getTransitionRules(board, 'todo', 'done');
+        expect(applyLineRules('- [x] Task ^ck-1', rules, date)).toBe('- [x] Task ✅ 2026-10-19 ^ck-1');
+    });
+
+    it('removes done and cancelled dates when leaving done', () => {
+        const rules = getTransitionRules(board, 'done', 'todo');
+        expect(applyLineRules('- [ ] Task ✅ 2026-10-01 ❌ 2026-10-02', rules, date)).toBe('- [ ] Task');
+    });
+
+    it('adds a tag once, with its leading #', () => {
+        const rules = getTransitionRules(board, 'todo', 'review');
+        expect(applyLineRules('- [/] Task', rules, date)).toBe('- [/] Task #review');
+        expect(applyLineRules('- [/] Task #review', rules, date)).toBe('- [/] Task #review');
+    });
+
+    it('removes the tag on exit', () => {
+        const rules = getTransitionRules(board, 'review', 'todo');
+        expect(applyLineRules('- [ ] Task #review #work', rules, date)).toBe('- [ ] Task #work');
+    });
+
+    it('leaves the line alone for note rules and rules without value', () => {
+        const line = '- [ ] Task';
+        expect(applyLineRules(line, [
+            { trigger: 'enter', action: 'append-to-note', value: 'Logs/Moves.md' },
+            { trigger: 'enter', action: 'add-tag' },
+        ], date)).toBe(line);
+    });
+});
+
+describe('formatMoveLogLine', () => {
+    it('writes the move with a dash for an unknown source column', () => {
+        expect(formatMoveLogLine('[[Task]]', 'Working', 'Done', 'HH:mm')).toMatch(/^- \d{4}-\d{2}-\d{2} \d{2}:\d{2} \[\[Task\]\]: Working → Done$/);
+        expect(formatMoveLogLine('[[Task]]', '', 'Done', 'HH:mm')).toMatch(/: – → Done$/);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { closeTimeblock, formatLogLine, upsertLogLine } from '../dailyLog';
+
+const LINK = '[[Projects/Alpha#^ck-1|Write spec]]';
+
+describe('formatLogLine', () => {
+    it('writes list lines and Day Planner timeblocks', () => {
+        const entry = { start: '2026-10-19T09:15:00', end: '2026-10-19T10:30:00', link: LINK };
+        expect(formatLogLine(entry, 'list', 'HH:mm')).toBe(`- 09:15–10:30 ${LINK}`);
+        expect(formatLogLine(entry, 'timeblock', 'HH:mm')).toBe(`- [x] 09:15 - 10:30 ${LINK}`);
+        expect(formatLogLine({ start: entry.start, link: LINK }, 'timeblock', 'HH:mm')).toBe(`- [ ] 09:15 ${LINK}`);
+    });
+});
+
+describe('upsertLogLine', () => {
+    it('appends to the heading section, created when missing', () => {
+        const lines = upsertLogLine(['# Monday', 'Notes'], { start: '2026-10-19T09:15:00', link: LINK }, 'timeblock', 'HH:mm', '## Time log');
+        expect(lines).toEqual(['# Monday', 'Notes', '', '## Time log', `- [ ] 09:15 ${LINK}`, '']);
+    });
+
+    it('closes the line written at clock-in', () => {
+        const lines = ['## Time log', `- [ ] 09:15 ${LINK}`, '', '## Other'];
+        upsertLogLine(lines, { start: '2026-10-19T09:15:00', end: '2026-10-19T10:30:00', link: LINK }, 'timeblock', 'HH:mm', '## Time log');
+        expect(lines).toEqual(['## Time log', `- [x] 09:15 - 10:30 ${LINK}`, '', '## Other']);
+    });
+});
+
+describe('closeTimeblock', () => {
+    it('closes the last open timeblock of the link', () => {
+        const lines = [`- [x] 08:00 - 08:30 ${LINK}`, `- [ ] 09:15 ${LINK}`, '- [ ] 09:20 [[Other]]'];
+        expect(closeTimeblock(lines, LINK, '2026-10-19T10:30:00', 'HH:mm')).toBe(true);
+        expect(lines[1]).toBe(`- [x] 09:15 - 10:30 ${LINK}`);
+        expect(lines[2]).toBe('- [ ] 09:20 [[Other]]');
+    });
+
+    it('reports a note without open timeblock for the link', () => {
+        const lines = [`- [x] 08:00 - 08:30 ${LINK}`, `- [ ] ${LINK}`];
+        expect(closeTimeblock(lines, LINK, '2026-10-19T10:30:00', 'HH:mm')).toBe(false);
+    });
+});
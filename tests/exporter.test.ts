@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import { collectTimeEntries, isInScope, toCsv, toIcs, toJson } from '../exporter';
+import type { BoardConfig, TaskClockRecord } from '../types';
+
+const record: TaskClockRecord = {
+    description: 'Write "the" spec, v2',
+    sourcePath: 'Projects/Alpha.md',
+    lineNumber: 4,
+    tags: ['#client/acme', '#work'],
+    intervals: [
+        { start: '2026-10-20T14:00:00', end: '2026-10-20T14:45:00' },
+        { start: '2026-10-19T09:00:00', end: '2026-10-19T10:30:00' },
+        { start: '2026-10-18T23:00:00', end: '2026-10-19T01:00:00' },
+        { start: '2026-10-21T09:00:00' },
+    ],
+};
+
+const board: BoardConfig = {
+    id: 'dev',
+    name: 'Dev',
+    columns: [],
+    clockColumn: '',
+    pauseColumn: '',
+    folderFilter: '/Projects/',
+    excludedFolders: ['/Projects/Archive'],
+};
+
+describe('isInScope', () => {
+    it('uses the folder scope and excluded folders of a board', () => {
+        expect(isInScope(record, { type: 'board', value: 'dev' }, [board])).toBe(true);
+        expect(isInScope({ ...record, sourcePath: 'Projects/Archive/Old.md' }, { type: 'board', value: 'dev' }, [board])).toBe(false);
+        expect(isInScope(record, { type: 'board', value: 'missing' }, [board])).toBe(false);
+    });
+
+    it('matches a folder with or without leading slash', () => {
+        expect(isInScope(record, { type: 'folder', value: '/Projects' }, [])).toBe(true);
+        expect(isInScope(record, { type: 'folder', value: 'Personal' }, [])).toBe(false);
+    });
+
+    it('counts nested tags for their parent tag', () => {
+        expect(isInScope(record, { type: 'tag', value: 'client' }, [])).toBe(true);
+        expect(isInScope(record, { type: 'tag', value: '#Work' }, [])).toBe(true);
+        expect(isInScope(record, { type: 'tag', value: '#cli' }, [])).toBe(false);
+    });
+});
+
+describe('collectTimeEntries', () => {
+    it('keeps closed intervals starting in the range, oldest first, with minutes', () => {
+        const entries = collectTimeEntries([record], '2026-10-19', '2026-10-20');
+        expect(entries.map(entry => [entry.start, entry.duration])).toEqual([
+            ['2026-10-19T09:00:00', 90],
+            ['2026-10-20T14:00:00', 45],
+        ]);
+        expect(entries[0]).toMatchObject({ task: record.description, file: 'Projects/Alpha.md', line: 4 });
+    });
+});
+
+describe('formats', () => {
+    const entries = collectTimeEntries([record], '2026-10-19', '2026-10-19');
+
+    it('quotes CSV fields with commas and quotes', () => {
+        expect(toCsv(entries)).toBe(
+            'task,file,tags,start,end,duration\r\n'
+            + '"Write ""the"" spec, v2",Projects/Alpha.md,#client/acme #work,2026-10-19T09:00:00,2026-10-19T10:30:00,90\r\n'
+        );
+    });
+
+    it('writes JSON entries', () => {
+        expect(JSON.parse(toJson(entries))).toEqual(entries);
+    });
+
+    it('writes one escaped VEVENT per entry', () => {
+        const ics = toIcs(entries);
+        expect(ics).toContain('DTSTART:20261019T090000\r\n');
+        expect(ics).toContain('DTEND:20261019T103000\r\n');
+        expect(ics).toContain('SUMMARY:Write "the" spec\\, v2\r\n');
+        expect(ics).toContain('CATEGORIES:client/acme,work\r\n');
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('folds lines at 75 octets without splitting characters', () => {
+        const task = `${'é'.repeat(50)}😀${'a'.repeat(30)}`;
+        const ics = toIcs([{ ...entries[0], task }]);
+        const encoder = new TextEncoder();
+        ics.split('\r\n').forEach(line => {
+            const bytes = encoder.encode(line);
+            expect(bytes.length).toBeLessThanOrEqual(75);
+            // A split surrogate pair would not survive the round trip
+            expect(new TextDecoder().decode(bytes)).toBe(line);
+        });
+
+        // Unfolding gives back the summary
+        expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${task}\r\n`);
+    });
+});
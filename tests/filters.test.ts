@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { isFilterEmpty, matchesFilter } from '../filters';
+import { EMPTY_FILTER, TaskFilter } from '../types';
+import { makeTask } from './fixtures';
+
+/** Filter with defaults for every field not given */
+function makeFilter(fields: Partial<TaskFilter>): TaskFilter {
+    return { ...EMPTY_FILTER, ...fields };
+}
+
+describe('isFilterEmpty', () => {
+    it('treats blank text as empty', () => {
+        expect(isFilterEmpty(makeFilter({ text: '   ' }))).toBe(true);
+        expect(isFilterEmpty(makeFilter({ dueTo: '2026-10-31' }))).toBe(false);
+        expect(isFilterEmpty(makeFilter({ priorities: ['none'] }))).toBe(false);
+    });
+});
+
+describe('matchesFilter', () => {
+    const task = makeTask({
+        description: 'Write the spec',
+        tags: ['#Work', '#review'],
+        priority: 'high',
+        dueDate: '2026-10-20',
+        sourcePath: 'Projects/Alpha.md',
+    });
+
+    it('lets every task through an empty filter', () => {
+        expect(matchesFilter(makeTask(), EMPTY_FILTER)).toBe(true);
+    });
+
+    it('requires every included tag and no excluded tag, ignoring case', () => {
+        expect(matchesFilter(task, makeFilter({ includeTags: ['#work', '#review'] }))).toBe(true);
+        expect(matchesFilter(task, makeFilter({ includeTags: ['#work', '#home'] }))).toBe(false);
+        expect(matchesFilter(task, makeFilter({ excludeTags: ['#REVIEW'] }))).toBe(false);
+    });
+
+    it('matches priorities, none standing for tasks without priority', () => {
+        expect(matchesFilter(task, makeFilter({ priorities: ['high', 'medium'] }))).toBe(true);
+        expect(matchesFilter(task, makeFilter({ priorities: ['none'] }))).toBe(false);
+        expect(matchesFilter(makeTask(), makeFilter({ priorities: ['none'] }))).toBe(true);
+    });
+
+    it('keeps tasks due in the range, inclusive, and drops tasks without due date', () => {
+        expect(matchesFilter(task, makeFilter({ dueFrom: '2026-10-20', dueTo: '2026-10-20' }))).toBe(true);
+        expect(matchesFilter(task, makeFilter({ dueFrom: '2026-10-21' }))).toBe(false);
+        expect(matchesFilter(task, makeFilter({ dueTo: '2026-10-19' }))).toBe(false);
+        expect(matchesFilter(makeTask(), makeFilter({ dueTo: '2026-10-31' }))).toBe(false);
+    });
+
+    it('matches every word of the text in description, tags or path', () => {
+        expect(matchesFilter(task, makeFilter({ text: 'spec alpha' }))).toBe(true);
+        expect(matchesFilter(task, makeFilter({ text: 'REVIEW' }))).toBe(true);
+        expect(matchesFilter(task, makeFilter({ text: 'spec beta' }))).toBe(false);
+    });
+});
@@ -0,0 +1,20 @@
+/**
+ * Test fixtures
+ */
+import type { KanbanTask } from '../types';
+
+/** Board card with defaults for every field not given */
+export function makeTask(fields: Partial<KanbanTask> = {}): KanbanTask {
+    return {
+        id: 'task',
+        description: 'Task',
+        column: 'todo',
+        status: 'todo',
+        sourcePath: 'Projects/Alpha.md',
+        lineNumber: 0,
+        tags: [],
+        isClockedIn: false,
+        clocks: [],
+        ...fields,
+    };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_BOARD_ID, SETTINGS_VERSION, StoredSettings, migrateSettings } from '../ClockKanbanSettings';
+
+/** Settings saved before boards, column IDs and settings versions */
+function legacySettings(): StoredSettings {
+    return {
+        autoClockInOut: true,
+        clockColumn: 'Working',
+        showCompletedTasks: true,
+        useDayPlannerCommands: true,
+        folderFilter: '/Projects',
+        excludedFolders: ['/Archive'],
+        columns: [
+            { type: 'TODO', name: 'TODO', color: '#6b7280', symbol: ' ' },
+            { type: 'Working', name: 'Working', color: '#3b82f6', symbol: ' ' },
+            { type: 'Stopped', name: 'Stopped', color: '#f59e0b', symbol: '-' },
+            { type: 'Done', name: 'Done', color: '#10b981', symbol: 'x' },
+        ],
+    };
+}
+
+describe('migrateSettings', () => {
+    it('turns single-board settings into the default board', () => {
+        const data = migrateSettings(legacySettings());
+        const [board] = data.boards || [];
+
+        expect(data.schemaVersion).toBe(SETTINGS_VERSION);
+        expect(data.boards).toHaveLength(1);
+        expect(board).toMatchObject({ id: DEFAULT_BOARD_ID, name: 'Default', folderFilter: '/Projects', excludedFolders: ['/Archive'] });
+        expect(data).not.toHaveProperty('columns');
+        expect(data).not.toHaveProperty('folderFilter');
+        expect(data.clockBackend).toBe('day-planner-commands');
+        expect(data).not.toHaveProperty('useDayPlannerCommands');
+    });
+
+    it('gives columns stable IDs and resolves the clock and pause columns', () => {
+        const [board] = migrateSettings(legacySettings()).boards || [];
+
+        expect(board.columns.map(col => col.id)).toEqual(['TODO', 'Working', 'Stopped', 'Done']);
+        expect(board.columns[0]).not.toHaveProperty('type');
+        expect(board.clockColumn).toBe('Working');
+        // No pause column was saved: the lowercase default matches the Stopped column
+        expect(board.pauseColumn).toBe('Stopped');
+    });
+
+    it('moves the status symbol to a list and "show completed" to the done columns', () => {
+        const [board] = migrateSettings(legacySettings()).boards || [];
+
+        expect(board.columns.map(col => col.symbols)).toEqual([[' '], [' '], ['-'], ['x']]);
+        expect(board.columns[0]).not.toHaveProperty('symbol');
+        expect(board.columns[3].showCompleted).toBe(true);
+        expect(board.columns[0].showCompleted).toBeUndefined();
+    });
+
+    it('renames the card order keys of a version 1 board to column IDs', () => {
+        const data = migrateSettings({
+            schemaVersion: 1,
+            clockBackend: 'property',
+            cardOrder: { 'dev:doing': ['ck-1', 'ck-2'], 'dev:Done': ['ck-3'] },
+            boards: [{
+                id: 'dev',
+                name: 'Dev',
+                clockColumn: 'doing',
+                pauseColumn: 'Gone',
+                folderFilter: '',
+                excludedFolders: [],
+                columns: [
+                    { name: 'Doing', color: '', symbol: '/' },
+                    { type: 'done', name: 'Done', color: '', symbol: 'x' },
+                ],
+            }],
+        });
+        const [board] = data.boards || [];
+
+        expect(board.columns.map(col => col.id)).toEqual(['Doing', 'done']);
+        expect(board.clockColumn).toBe('Doing');
+        expect(board.pauseColumn).toBe('');
+        expect(data.cardOrder).toEqual({ 'dev:Doing': ['ck-1', 'ck-2'], 'dev:done': ['ck-3'] });
+    });
+
+    it('falls back to the property for unknown clock backends', () => {
+        const data = migrateSettings({ ...legacySettings(), schemaVersion: SETTINGS_VERSION, boards: [], clockBackend: 'auto' });
+        expect(data.clockBackend).toBe('property');
+    });
+
+    it('clears clock and pause columns that are not columns of their board', () => {
+        const data = migrateSettings({
+            schemaVersion: SETTINGS_VERSION,
+            clockBackend: 'daily-note',
+            boards: [{
+                id: 'dev',
+                clockColumn: 'working',
+                pauseColumn: 'removed',
+                columns: [{ id: 'working', name: 'Working', color: '', symbols: [' '] }],
+            }],
+        });
+        const [board] = data.boards || [];
+
+        expect(data.clockBackend).toBe('daily-note');
+        expect(board.clockColumn).toBe('working');
+        expect(board.pauseColumn).toBe('');
+    });
+});
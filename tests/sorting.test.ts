@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { compareTasks } from '../sorting';
+import type { ColumnSort, KanbanTask } from '../types';
+import { makeTask } from './fixtures';
+
+/** IDs of the tasks once sorted */
+function sortIds(tasks: KanbanTask[], sort: ColumnSort): string[] {
+    return [...tasks].sort((a, b) => compareTasks(a, b, sort)).map(task => task.id);
+}
+
+describe('compareTasks', () => {
+    it('sorts by due date, tasks without one last in both directions', () => {
+        const tasks = [
+            makeTask({ id: 'none' }),
+            makeTask({ id: 'late', dueDate: '2026-10-30' }),
+            makeTask({ id: 'soon', dueDate: '2026-10-20' }),
+        ];
+        expect(sortIds(tasks, { key: 'due', direction: 'asc' })).toEqual(['soon', 'late', 'none']);
+        expect(sortIds(tasks, { key: 'due', direction: 'desc' })).toEqual(['late', 'soon', 'none']);
+    });
+
+    it('ranks no priority between medium and low', () => {
+        const tasks = [
+            makeTask({ id: 'low', priority: 'low' }),
+            makeTask({ id: 'none' }),
+            makeTask({ id: 'high', priority: 'high' }),
+            makeTask({ id: 'medium', priority: 'medium' }),
+        ];
+        expect(sortIds(tasks, { key: 'priority', direction: 'desc' })).toEqual(['high', 'medium', 'none', 'low']);
+    });
+
+    it('sorts by tracked time and last clock-in', () => {
+        const tasks = [
+            makeTask({ id: 'short', clocks: [{ start: '2026-10-19T09:00:00', end: '2026-10-19T09:15:00' }] }),
+            makeTask({ id: 'long', clocks: [
+                { start: '2026-10-18T09:00:00', end: '2026-10-18T10:00:00' },
+                { start: '2026-10-18T14:00:00', end: '2026-10-18T14:30:00' },
+            ] }),
+            makeTask({ id: 'never' }),
+        ];
+        expect(sortIds(tasks, { key: 'tracked', direction: 'desc' })).toEqual(['long', 'short', 'never']);
+        expect(sortIds(tasks, { key: 'last-clock-in', direction: 'desc' })).toEqual(['short', 'long', 'never']);
+    });
+
+    it('sorts by description and file ignoring case', () => {
+        const tasks = [
+            makeTask({ id: 'b', description: 'beta', sourcePath: 'a.md' }),
+            makeTask({ id: 'a', description: 'Alpha', sourcePath: 'B.md' }),
+        ];
+        expect(sortIds(tasks, { key: 'description', direction: 'asc' })).toEqual(['a', 'b']);
+        expect(sortIds(tasks, { key: 'file', direction: 'asc' })).toEqual(['b', 'a']);
+    });
+
+    it('sorts by completion date', () => {
+        const tasks = [
+            makeTask({ id: 'open' }),
+            makeTask({ id: 'first', doneDate: '2026-10-01' }),
+            makeTask({ id: 'second', doneDate: '2026-10-02' }),
+        ];
+        expect(sortIds(tasks, { key: 'completion', direction: 'desc' })).toEqual(['second', 'first', 'open']);
+    });
+});
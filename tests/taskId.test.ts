@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals';
+import { appendTaskId, findLineById, generateTaskId, readBlockId, readTaskId, readTaskIds, stripTaskIds } from '../taskId';
+
+describe('reading IDs', () => {
+    it('reads the Tasks ID first, then the block ID', () => {
+        const line = '- [ ] Task 🆔 abc123 #work ^ck-a1b2c3';
+        expect(readTaskIds(line)).toEqual(['abc123', 'ck-a1b2c3']);
+        expect(readTaskId(line)).toBe('abc123');
+        expect(readBlockId(line)).toBe('ck-a1b2c3');
+    });
+
+    it('ignores a caret that is not a trailing block ID', () => {
+        expect(readTaskIds('- [ ] Compute 2^10 today')).toEqual([]);
+        expect(readBlockId('- [ ] Task ^ck-1 and more')).toBeUndefined();
+    });
+
+    it('strips ID markers from the task text', () => {
+        expect(stripTaskIds('Write spec #work 🆔 abc123 ^ck-a1b2c3')).toBe('Write spec #work');
+    });
+});
+
+describe('writing IDs', () => {
+    it('appends a block ID', () => {
+        expect(appendTaskId('- [ ] Task  ', 'ck-a1b2c3', 'block-id')).toBe('- [ ] Task ^ck-a1b2c3');
+    });
+
+    it('inserts a Tasks ID before a trailing block ID', () => {
+        expect(appendTaskId('- [ ] Task ^keep', 'ck-a1b2c3', 'tasks-id')).toBe('- [ ] Task 🆔 ck-a1b2c3 ^keep');
+    });
+
+    it('generates IDs not used in the file', () => {
+        const lines = ['- [ ] One ^ck-aaaaaa', '- [ ] Two 🆔 ck-bbbbbb'];
+        const id = generateTaskId(lines);
+        expect(id).toMatch(/^ck-[a-z0-9]+$/);
+        expect(['ck-aaaaaa', 'ck-bbbbbb']).not.toContain(id);
+    });
+});
+
+describe('findLineById', () => {
+    const lines = ['- [ ] One ^ck-1', '- [ ] Two 🆔 ck-2', '- [ ] Copy ^ck-1'];
+
+    it('prefers the expected line', () => {
+        expect(findLineById(lines, 'ck-1', 2)).toBe(2);
+    });
+
+    it('searches the file when the task moved', () => {
+        expect(findLineById(lines, 'ck-2', 0)).toBe(1);
+        expect(findLineById(lines, 'ck-1', 10)).toBe(0);
+        expect(findLineById(lines, 'ck-3', 0)).toBe(-1);
+    });
+});
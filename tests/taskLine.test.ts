@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { hasTag, insertField, replaceTag, setDateField, setPriority, setStatusSymbol } from '../taskLine';
+
+describe('insertField', () => {
+    it('appends the field at the end of the line', () => {
+        expect(insertField('- [ ] Write spec  ', '📅 2026-10-19')).toBe('- [ ] Write spec 📅 2026-10-19');
+    });
+
+    it('keeps a trailing block ID last', () => {
+        expect(insertField('- [ ] Write spec ^ck-a1b2c3', '#review')).toBe('- [ ] Write spec #review ^ck-a1b2c3');
+    });
+});
+
+describe('setStatusSymbol', () => {
+    it('replaces the checkbox symbol only', () => {
+        expect(setStatusSymbol('- [ ] Write [x] spec', '/')).toBe('- [/] Write [x] spec');
+        expect(setStatusSymbol('    - [x] Nested', ' ')).toBe('    - [ ] Nested');
+    });
+});
+
+describe('setPriority', () => {
+    it('replaces any priority emoji', () => {
+        expect(setPriority('- [ ] Task 🔽 ^ck-1', 'high')).toBe('- [ ] Task ⏫ ^ck-1');
+    });
+
+    it('removes the priority', () => {
+        expect(setPriority('- [ ] Task 🔺 📅 2026-10-19', undefined)).toBe('- [ ] Task 📅 2026-10-19');
+    });
+});
+
+describe('setDateField', () => {
+    it('adds, replaces and removes a date field', () => {
+        expect(setDateField('- [x] Task', 'done', '2026-10-19')).toBe('- [x] Task ✅ 2026-10-19');
+        expect(setDateField('- [x] Task ✅ 2026-10-01 ^ck-1', 'done', '2026-10-19')).toBe('- [x] Task ✅ 2026-10-19 ^ck-1');
+        expect(setDateField('- [ ] Task 📅 2026-10-01 #work', 'due')).toBe('- [ ] Task #work');
+    });
+});
+
+describe('tags', () => {
+    it('matches whole tags only', () => {
+        expect(hasTag('- [ ] Task #review', '#review')).toBe(true);
+        expect(hasTag('- [ ] Task #reviewed', '#review')).toBe(false);
+        expect(hasTag('- [ ] Task #a/b.c', '#a/b.c')).toBe(true);
+    });
+
+    it('replaces, removes or adds a tag', () => {
+        expect(replaceTag('- [ ] Task #todo #work', '#todo', '#doing')).toBe('- [ ] Task #doing #work');
+        expect(replaceTag('- [ ] Task #todo #work', '#todo', '')).toBe('- [ ] Task #work');
+        expect(replaceTag('- [ ] Task ^ck-1', undefined, '#work')).toBe('- [ ] Task #work ^ck-1');
+        expect(replaceTag('- [ ] Task', undefined, '')).toBe('- [ ] Task');
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { moment } from 'obsidian';
+import { buildTimesheet, getWeekLabel, mergeTimesheet } from '../timesheet';
+import type { TaskClockRecord } from '../types';
+
+const records: TaskClockRecord[] = [
+    {
+        description: 'Write spec',
+        sourcePath: 'Projects/Alpha.md',
+        lineNumber: 2,
+        blockId: 'ck-a1b2c3',
+        tags: ['#alpha', '#work'],
+        intervals: [
+            { start: '2026-10-19T09:00:00', end: '2026-10-19T10:30:00' },
+            { start: '2026-10-21T14:00:00', end: '2026-10-21T15:00:00' },
+            // Previous week and still running: left out
+            { start: '2026-10-16T09:00:00', end: '2026-10-16T10:00:00' },
+            { start: '2026-10-22T09:00:00' },
+        ],
+    },
+    {
+        description: 'Inbox [zero]',
+        sourcePath: 'Inbox.md',
+        lineNumber: 0,
+        tags: [],
+        intervals: [{ start: '2026-10-19T11:00:00', end: '2026-10-19T11:20:00' }],
+    },
+];
+
+const TEMPLATE = '{{week}} {{from}} {{to}} {{total}}\n{{table}}\n{{tasks}}\n{{unknown}}';
+
+describe('buildTimesheet', () => {
+    const weekStart = moment('2026-10-21', 'YYYY-MM-DD');
+    const lines = buildTimesheet(records, weekStart, TEMPLATE).split('\n');
+
+    it('fills the week, range and total of the ISO week, leaving unknown placeholders', () => {
+        expect(lines[0]).toBe('2026-W43 2026-10-19 2026-10-25 2h 50m');
+        expect(lines[lines.length - 1]).toBe('{{unknown}}');
+    });
+
+    it('tabulates days by first tag, tasks without tags last', () => {
+        expect(lines[1]).toBe('| Day | #alpha | (no tag) | Total |');
+        expect(lines[3]).toBe('| Mon 2026-10-19 | 1h 30m | 20m | 1h 50m |');
+        expect(lines[5]).toBe('| Wed 2026-10-21 | 1h 00m |  | 1h 00m |');
+        expect(lines[10]).toBe('| **Total** | **2h 30m** | **20m** | **2h 50m** |');
+    });
+
+    it('lists tasks longest first with links to their block', () => {
+        expect(lines[11]).toBe('- [[Projects/Alpha#^ck-a1b2c3|Write spec]] · 2h 30m #alpha #work');
+        expect(lines[12]).toBe('- [[Inbox|Inbox zero]] · 20m');
+    });
+
+    it('says when nothing was tracked', () => {
+        expect(buildTimesheet([], weekStart, '{{table}}')).toBe('_No time tracked this week._');
+    });
+});
+
+describe('getWeekLabel', () => {
+    it('uses the ISO week year', () => {
+        expect(getWeekLabel(moment('2026-12-28', 'YYYY-MM-DD'))).toBe('2026-W53');
+        expect(getWeekLabel(moment('2027-01-01', 'YYYY-MM-DD'))).toBe('2026-W53');
+    });
+});
+
+describe('mergeTimesheet', () => {
+    it('wraps a new note in markers', () => {
+        expect(mergeTimesheet(null, 'Sheet')).toBe('%% clock-kanban timesheet start %%\nSheet\n%% clock-kanban timesheet end %%\n');
+    });
+
+    it('replaces the generated part and keeps the notes around it', () => {
+        const first = mergeTimesheet('Intro\n', 'Old');
+        const edited = `${first}My notes\n`;
+        expect(mergeTimesheet(edited, 'New')).toBe('Intro\n\n%% clock-kanban timesheet start %%\nNew\n%% clock-kanban timesheet end %%\nMy notes\n');
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Weekly timesheet helpers
+ * Builds a markdown note (days × projects table, per-task breakdown) from the clock entries of a week
+ */
+import { moment } from 'obsidian';
+import type { TaskClockRecord } from './types';
+import { CLOCK_TIMESTAMP_FORMAT, formatDuration, getIntervalDuration } from './clock';
+
+/** Default note template; placeholders: {{week}}, {{from}}, {{to}}, {{total}}, {{table}}, {{tasks}} */
+export const DEFAULT_TIMESHEET_TEMPLATE = [
+    '# Timesheet {{week}}',
+    '',
+    '{{from}} → {{to}} · Total: **{{total}}**',
+    '',
+    '## By day',
+    '',
+    '{{table}}',
+    '',
+    '## By task',
+    '',
+    '{{tasks}}',
+].join('\n');
+
+/** Markers around the generated part, so notes written below survive an update */
+const START_MARKER = '%% clock-kanban timesheet start %%';
+const END_MARKER = '%% clock-kanban timesheet end %%';
+
+/** Project of tasks without tags */
+const NO_PROJECT = '(no tag)';
+
+/** Time tracked on one task during the week */
+interface TaskTotal {
+    record: TaskClockRecord;
+    total: number;
+}
+
+/** Week label used as note name (e.g. 2026-W42) */
+export function getWeekLabel(weekStart: moment.Moment): string {
+    return weekStart.format('GGGG-[W]WW');
+}
+
+/** Link to the task line: block reference when the task has one, file otherwise */
+function taskLink(record: TaskClockRecord): string {
+    const target = record.sourcePath.replace(/\.md$/, '') + (record.blockId ? `#^${record.blockId}` : '');
+    const alias = record.description.replace(/[[\]|]/g, '');
+    return `[[${target}|${alias}]]`;
+}
+
+/** Render the timesheet of the ISO week starting at weekStart */
+export function buildTimesheet(records: TaskClockRecord[], weekStart: moment.Moment, template: string): string {
+    const from = moment(weekStart).startOf('isoWeek');
+    const to = moment(from).endOf('isoWeek');
+    const days = [0, 1, 2, 3, 4, 5, 6].map(offset => moment(from).add(offset, 'days').format('YYYY-MM-DD'));
+
+    // Totals per "day|project" and per task; intervals count for the day and first tag they start with
+    const cells = new Map<string, number>();
+    const projects = new Set<string>();
+    const tasks: TaskTotal[] = [];
+    let total = 0;
+
+    for (const record of records) {
+        const project = record.tags[0] || NO_PROJECT;
+        let taskTotal = 0;
+
+        for (const interval of record.intervals) {
+            if (!interval.end) continue;
+
+            const start = moment(interval.start, CLOCK_TIMESTAMP_FORMAT);
+            if (!start.isValid() || start.isBefore(from) || start.isAfter(to)) continue;
+
+            const duration = getIntervalDuration(interval);
+            const key = `${start.format('YYYY-MM-DD')}|${project}`;
+            cells.set(key, (cells.get(key) || 0) + duration);
+            projects.add(project);
+            taskTotal += duration;
+        }
+
+        if (taskTotal > 0) {
+            tasks.push({ record, total: taskTotal });
+            total += taskTotal;
+        }
+    }
+
+    const columns = [...projects].sort((a, b) => (a === NO_PROJECT ? 1 : b === NO_PROJECT ? -1 : a.localeCompare(b)));
+    const cell = (ms: number) => (ms > 0 ? formatDuration(ms) : '');
+
+    // Days × projects table with row and column totals
+    const table = [
+        `| Day | ${columns.join(' | ')} | Total |`,
+        `|-----|${columns.map(() => '---:|').join('')}---:|`,
+    ];
+    days.forEach(day => {
+        const values = columns.map(project => cells.get(`${day}|${project}`) || 0);
+        const dayTotal = values.reduce((sum, value) => sum + value, 0);
+        table.push(`| ${moment(day, 'YYYY-MM-DD').format('ddd YYYY-MM-DD')} | ${values.map(cell).join(' | ')} | ${cell(dayTotal)} |`);
+    });
+    const projectTotals = columns.map(project =>
+        days.reduce((sum, day) => sum + (cells.get(`${day}|${project}`) || 0), 0));
+    table.push(`| **Total** | ${projectTotals.map(value => `**${cell(value)}**`).join(' | ')} | **${formatDuration(total)}** |`);
+
+    // Per-task breakdown, longest first
+    const taskLines = tasks
+        .sort((a, b) => b.total - a.total)
+        .map(({ record, total: taskTotal }) => {
+            const tags = record.tags.length > 0 ? ` ${record.tags.join(' ')}` : '';
+            return `- ${taskLink(record)} · ${formatDuration(taskTotal)}${tags}`;
+        });
+
+    const values: Record<string, string> = {
+        week: getWeekLabel(from),
+        from: from.format('YYYY-MM-DD'),
+        to: to.format('YYYY-MM-DD'),
+        total: formatDuration(total),
+        table: columns.length > 0 ? table.join('\n') : '_No time tracked this week._',
+        tasks: taskLines.join('\n'),
+    };
+    return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/** Put the generated timesheet in a note, replacing the previous version if there is one */
+export function mergeTimesheet(existing: string | null, generated: string): string {
+    const block = `${START_MARKER}\n${generated}\n${END_MARKER}`;
+    if (existing === null) return `${block}\n`;
+
+    const start = existing.indexOf(START_MARKER);
+    const end = existing.indexOf(END_MARKER, start);
+    if (start === -1 || end === -1) {
+        return `${existing.replace(/\s*$/, '')}\n\n${block}\n`;
+    }
+    return existing.substring(0, start) + block + existing.substring(end + END_MARKER.length);
+}
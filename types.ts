@@ -2,16 +2,18 @@
  * Types and interfaces for Clock Kanban plugin
  */
 
-/** Kanban column types */
+/** Kanban column ID */
 export type KanbanColumnType = string;
 
 /** Kanban task interface */
 export interface KanbanTask {
     /** Unique task identifier */
     id: string;
+    /** Stable ID written in the source line (block ID or Tasks 🆔 value) */
+    stableId?: string;
     /** Task description/text */
     description: string;
-    /** Current task column */
+    /** Current task column (column ID) */
     column: KanbanColumnType;
     /** Task status (from Tasks plugin) */
     status: TaskStatus;
@@ -29,38 +31,103 @@ export interface KanbanTask {
     tags: string[];
     /** Due date (optional) */
     dueDate?: string;
+    /** Completion date (✅, optional) */
+    doneDate?: string;
     /** Indicates if task has active clock-in */
     isClockedIn: boolean;
+    /** Clock entries recorded below the task */
+    clocks: ClockInterval[];
 }
 
 /** Possible task statuses */
 export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'cancelled';
 
+/** Swimlane grouping of the board */
+export type SwimlaneGroupBy = 'none' | 'tag' | 'file' | 'folder' | 'priority';
+
 /** Kanban column configuration */
 export interface KanbanColumnConfig {
-    type: string;
+    /** Stable ID, kept when the column is renamed */
+    id: string;
+    /** Display name */
     name: string;
     color: string;
-    symbol: string;
+    /** Status symbols of the column's tasks, the first one is written when a card moves in */
+    symbols: string[];
+    /** Maximum number of tasks (work-in-progress limit), unlimited when unset or 0 */
+    wipLimit?: number;
+    /** Automatic card sorting, manual order when unset */
+    sort?: ColumnSort;
+    /** Show completed (done) tasks, shown when unset */
+    showCompleted?: boolean;
+    /** Folded to a narrow strip on the board */
+    collapsed?: boolean;
+    /** Not shown on the board */
+    hidden?: boolean;
+    /** Not shown on the board while it has no tasks */
+    hideWhenEmpty?: boolean;
+    /** Automations run when a card enters or leaves the column */
+    rules?: ColumnRule[];
+}
+
+/** Column automation actions */
+export type ColumnRuleAction = 'add-done-date' | 'add-cancelled-date' | 'remove-done-date' | 'remove-due-date'
+    | 'add-tag' | 'remove-tag' | 'append-to-note';
+
+/** Action run on the task when a card enters or leaves a column */
+export interface ColumnRule {
+    trigger: 'enter' | 'exit';
+    action: ColumnRuleAction;
+    /** Tag (add-tag, remove-tag) or note path (append-to-note) */
+    value?: string;
+}
+
+/** Card sort keys */
+export type ColumnSortKey = 'due' | 'priority' | 'tracked' | 'last-clock-in' | 'file' | 'description' | 'completion';
+
+/** Automatic card sorting of a column */
+export interface ColumnSort {
+    key: ColumnSortKey;
+    direction: 'asc' | 'desc';
 }
 
 /** Default columns configuration */
 export const DEFAULT_COLUMNS: KanbanColumnConfig[] = [
-    { type: 'TODO', name: 'TODO', color: '#6b7280', symbol: ' ' },
-    { type: 'Working', name: 'Working', color: '#3b82f6', symbol: ' ' },
-    { type: 'Stopped', name: 'Stopped', color: '#f59e0b', symbol: '-' },
-    { type: 'Done', name: 'Done', color: '#10b981', symbol: 'x' },
+    { id: 'todo', name: 'TODO', color: '#6b7280', symbols: [' '], sort: { key: 'due', direction: 'asc' } },
+    { id: 'working', name: 'Working', color: '#3b82f6', symbols: [' '], sort: { key: 'last-clock-in', direction: 'desc' } },
+    { id: 'stopped', name: 'Stopped', color: '#f59e0b', symbols: ['-'] },
+    { id: 'done', name: 'Done', color: '#10b981', symbols: ['x'], sort: { key: 'completion', direction: 'desc' }, showCompleted: false },
 ];
 
-/** Drag & drop event */
+/** Named board with its own columns and scope */
+export interface BoardConfig {
+    /** Unique board identifier */
+    id: string;
+    /** Display name */
+    name: string;
+    /** Board columns */
+    columns: KanbanColumnConfig[];
+    /** ID of the column that triggers clock-in when entered and clock-out when exited */
+    clockColumn: KanbanColumnType;
+    /** ID of the column that paused tasks are moved to in single-clock mode ('' for none) */
+    pauseColumn: KanbanColumnType;
+    /** Folder scope of the board (e.g. /Projects) */
+    folderFilter: string;
+    /** Excluded folders (e.g. /Archive) */
+    excludedFolders: string[];
+}
+
+/** Task moved to another column (task-moved API event) */
 export interface DragDropEvent {
     taskId: string;
+    /** Board the move happened on */
+    boardId: string;
     sourceColumn: KanbanColumnType;
     targetColumn: KanbanColumnType;
     timestamp: Date;
 }
 
-/** Clock-in/clock-out operation result */
+/** Clock-in/clock-out operation result (API return value, clock-in and clock-out events) */
 export interface ClockOperationResult {
     success: boolean;
     taskId: string;
@@ -68,3 +135,102 @@ export interface ClockOperationResult {
     timestamp: string;
     error?: string;
 }
+
+/** Clock interval read from a [clock::start--end] entry */
+export interface ClockInterval {
+    /** Start timestamp (YYYY-MM-DDTHH:mm:ss) */
+    start: string;
+    /** End timestamp, missing while the clock is running */
+    end?: string;
+}
+
+/** Clock intervals recorded under a task line */
+export interface TaskClockRecord {
+    /** Task description/text */
+    description: string;
+    /** Source file path */
+    sourcePath: string;
+    /** Line number in source file */
+    lineNumber: number;
+    /** Block ID of the task line, if any */
+    blockId?: string;
+    /** Tags found on the task line */
+    tags: string[];
+    /** Intervals found below the task */
+    intervals: ClockInterval[];
+}
+
+/** Task as read from a task source (Tasks plugin or built-in vault scanner) */
+export interface RawTask {
+    /** Stable ID found on the line (Tasks 🆔 value or block ID) */
+    id?: string;
+    /** Block ID found on the line, for links to the task */
+    blockId?: string;
+    description: string;
+    status: { symbol: string };
+    path: string;
+    lineNumber: number;
+    tags: string[];
+    priority?: 'low' | 'medium' | 'high';
+    dueDate?: string;
+    doneDate?: string;
+    /** Clock entries recorded below the task */
+    clocks: ClockInterval[];
+}
+
+/** Date of a source task: YYYY-MM-DD from the scanner, a moment from the Tasks plugin */
+export type SourceDate = string | { format(format: string): string } | null;
+
+/** Task from the configured source: a scanned RawTask or a Tasks plugin task (fields read by the board) */
+export interface SourceTask {
+    id?: string;
+    description?: string;
+    text?: string;
+    status?: { symbol: string } | string;
+    path?: string;
+    sourcePath?: string;
+    lineNumber?: number;
+    /** Tasks plugin block link, e.g. " ^ck-xxxx" */
+    blockLink?: string;
+    tags?: string[];
+    priority?: unknown;
+    dueDate?: SourceDate;
+    doneDate?: SourceDate;
+    clocks?: ClockInterval[];
+    isClockedIn?: boolean;
+    startTime?: string;
+    endTime?: string;
+}
+
+/** Priority filter values ('none' matches tasks without priority) */
+export type PriorityFilter = 'high' | 'medium' | 'low' | 'none';
+
+/** Board filter (tags, priority, due date range and free text) */
+export interface TaskFilter {
+    /** Tasks must have all these tags */
+    includeTags: string[];
+    /** Tasks must have none of these tags */
+    excludeTags: string[];
+    /** Allowed priorities, any when empty */
+    priorities: PriorityFilter[];
+    /** Earliest due date (YYYY-MM-DD) */
+    dueFrom?: string;
+    /** Latest due date (YYYY-MM-DD) */
+    dueTo?: string;
+    /** Free text searched in description, tags and path */
+    text: string;
+}
+
+/** Named filter preset */
+export interface FilterPreset {
+    name: string;
+    filter: TaskFilter;
+}
+
+/** Filter matching every task */
+export const EMPTY_FILTER: TaskFilter = {
+    includeTags: [],
+    excludeTags: [],
+    priorities: [],
+    text: '',
+};